@@ -4,7 +4,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { pickDevice, installApk, launchApp, AndroidDevice } from './deviceManager';
 
-interface AndroidProjectInfo {
+export interface AndroidProjectInfo {
     rootPath: string;
     packageName: string;
     mainActivity: string;
@@ -14,11 +14,13 @@ interface AndroidProjectInfo {
 /**
  * Find Android project info in workspace
  */
-async function findAndroidProject(): Promise<AndroidProjectInfo | null> {
+export async function findAndroidProject(showErrors: boolean = true): Promise<AndroidProjectInfo | null> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     
     if (!workspaceFolders || workspaceFolders.length === 0) {
-        vscode.window.showErrorMessage('No workspace folder open');
+        if (showErrors) {
+            vscode.window.showErrorMessage('No workspace folder open');
+        }
         return null;
     }
 
@@ -65,7 +67,9 @@ async function findAndroidProject(): Promise<AndroidProjectInfo | null> {
         }
 
         if (!packageName) {
-            vscode.window.showErrorMessage('Could not determine package name. Check AndroidManifest.xml or build.gradle');
+            if (showErrors) {
+                vscode.window.showErrorMessage('Could not determine package name. Check AndroidManifest.xml or build.gradle');
+            }
             return null;
         }
 
@@ -81,10 +85,110 @@ async function findAndroidProject(): Promise<AndroidProjectInfo | null> {
         };
     }
 
-    vscode.window.showErrorMessage('No Android project found in workspace. Make sure you have an app/build.gradle file.');
+    if (showErrors) {
+        vscode.window.showErrorMessage('No Android project found in workspace. Make sure you have an app/build.gradle file.');
+    }
     return null;
 }
 
+/**
+ * Find R8/ProGuard mapping files of all built variants
+ */
+function findMappingFiles(rootPath: string): { variant: string; mappingPath: string }[] {
+    const mappingDir = path.join(rootPath, 'app', 'build', 'outputs', 'mapping');
+    
+    if (!fs.existsSync(mappingDir)) {
+        return [];
+    }
+    
+    return fs.readdirSync(mappingDir)
+        .map(variant => ({ variant, mappingPath: path.join(mappingDir, variant, 'mapping.txt') }))
+        .filter(mapping => fs.existsSync(mapping.mappingPath));
+}
+
+/**
+ * Collect .so files below a directory
+ */
+function collectSharedLibraries(dir: string, found: string[]): void {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            collectSharedLibraries(entryPath, found);
+        } else if (entry.name.endsWith('.so')) {
+            found.push(entryPath);
+        }
+    }
+}
+
+/**
+ * Find the unstripped native libraries the build produced
+ * (merged_native_libs and CMake outputs)
+ */
+export async function findUnstrippedLibraries(): Promise<string[]> {
+    const project = await findAndroidProject();
+    
+    if (!project) {
+        return [];
+    }
+    
+    const searchDirs = [
+        path.join(project.rootPath, 'app', 'build', 'intermediates', 'merged_native_libs'),
+        path.join(project.rootPath, 'app', 'build', 'intermediates', 'cmake'),
+        path.join(project.rootPath, 'app', 'build', 'intermediates', 'cxx'),
+        path.join(project.rootPath, 'app', '.cxx')
+    ];
+    
+    const libraries: string[] = [];
+    for (const dir of searchDirs) {
+        if (fs.existsSync(dir)) {
+            collectSharedLibraries(dir, libraries);
+        }
+    }
+    return libraries;
+}
+
+/**
+ * Pick a mapping.txt for retracing: one of the project's built variants or a file
+ */
+export async function pickMappingFile(): Promise<string | undefined> {
+    const project = await findAndroidProject(false);
+    const mappings = project ? findMappingFiles(project.rootPath) : [];
+    
+    const items = [
+        ...mappings.map(mapping => ({
+            label: `$(package) ${mapping.variant}`,
+            description: path.relative(project!.rootPath, mapping.mappingPath),
+            mappingPath: mapping.mappingPath as string | undefined
+        })),
+        { label: '$(folder-opened) Browse...', description: 'Choose a mapping file', mappingPath: undefined }
+    ];
+    
+    const selected = mappings.length > 0
+        ? await vscode.window.showQuickPick(items, { placeHolder: 'Select the build variant whose mapping to use' })
+        : items[items.length - 1];
+    
+    if (!selected) {
+        return undefined;
+    }
+    
+    if (selected.mappingPath) {
+        return selected.mappingPath;
+    }
+    
+    const files = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        openLabel: 'Use Mapping',
+        filters: {
+            'Mapping Files': ['txt'],
+            'All Files': ['*']
+        }
+    });
+    
+    return files?.[0]?.fsPath;
+}
+
 /**
  * Run Gradle build
  */
@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
 import { getConnectedDevices, AndroidDevice } from './deviceManager';
+import { CrashIncident, getCrashTitle } from './crashDetector';
+import { Bugreport, BugreportSection } from './bugreport';
+import { entriesToText } from './logcatParser';
+import { Bookmark, BookmarkStore, getViewTab } from './bookmarks';
 
 /**
  * Tree item for Android devices
@@ -166,3 +170,241 @@ export class ActionsTreeProvider implements vscode.TreeDataProvider<vscode.TreeI
         return element;
     }
 }
+
+/**
+ * Tree item for a crash incident
+ */
+class CrashTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly incident: CrashIncident
+    ) {
+        super(getCrashTitle(incident), vscode.TreeItemCollapsibleState.None);
+        
+        const details = [incident.packageName, incident.pid !== undefined ? `pid ${incident.pid}` : undefined, incident.timestampStr];
+        this.description = details.filter(Boolean).join(' · ');
+        this.tooltip = incident.topFrame
+            ? `${getCrashTitle(incident)}\nat ${incident.topFrame}`
+            : getCrashTitle(incident);
+        this.iconPath = new vscode.ThemeIcon(incident.kind === 'anr' ? 'watch' : 'bug');
+        this.contextValue = incident.kind === 'native' ? 'nativeCrash' : 'crash';
+        
+        this.command = {
+            command: 'android.showCrash',
+            title: 'Show Crash',
+            arguments: [incident]
+        };
+    }
+}
+
+/**
+ * Crash incidents tree data provider
+ */
+export class CrashTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    
+    private incidents: CrashIncident[] = [];
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Add an incident, or refresh it if it has gained more lines
+     */
+    addIncident(incident: CrashIncident): void {
+        if (!this.incidents.includes(incident)) {
+            this.incidents.push(incident);
+        }
+        this.refresh();
+    }
+
+    clear(): void {
+        this.incidents = [];
+        this.refresh();
+    }
+
+    getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+        if (element) {
+            return [];
+        }
+
+        // Most recent first
+        return [...this.incidents].reverse().map(incident => new CrashTreeItem(incident));
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+}
+
+/**
+ * Tree item for a section of a bugreport, opened as a document on click
+ */
+class BugreportSectionTreeItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        language: string,
+        content: string,
+        description?: string
+    ) {
+        super(label, vscode.TreeItemCollapsibleState.None);
+        
+        this.description = description;
+        this.iconPath = new vscode.ThemeIcon(language === 'logcat' ? 'output' : 'file-text');
+        this.command = {
+            command: 'android.openBugreportSection',
+            title: 'Open Section',
+            arguments: [language, content]
+        };
+    }
+}
+
+/**
+ * Group of bugreport sections
+ */
+class BugreportGroupTreeItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        public readonly children: vscode.TreeItem[],
+        expanded = false
+    ) {
+        super(label, expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+        
+        this.description = `${children.length}`;
+    }
+}
+
+/**
+ * Bugreport contents tree data provider
+ */
+export class BugreportTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    
+    private bugreport?: Bugreport;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    setBugreport(bugreport: Bugreport | undefined): void {
+        this.bugreport = bugreport;
+        this.refresh();
+    }
+
+    getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+        if (element instanceof BugreportGroupTreeItem) {
+            return element.children;
+        }
+        if (element || !this.bugreport) {
+            return [];
+        }
+
+        const report = this.bugreport;
+        const toItem = (section: BugreportSection) =>
+            new BugreportSectionTreeItem(section.title, 'plaintext', section.text, section.command);
+
+        const groups = [
+            new BugreportGroupTreeItem(
+                'Logcat Buffers',
+                [...report.buffers].map(([buffer, entries]) =>
+                    new BugreportSectionTreeItem(buffer, 'logcat', entriesToText(entries), `${entries.length} entries`)
+                ),
+                true
+            ),
+            new BugreportGroupTreeItem('Dumpsys Services', report.services.map(toItem)),
+            new BugreportGroupTreeItem('System Properties', report.sections.filter(section => section.kind === 'properties').map(toItem)),
+            new BugreportGroupTreeItem('Other Sections', report.sections.filter(section => section.kind === 'other').map(toItem))
+        ];
+        return groups.filter(group => group.children.length > 0);
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+}
+
+/**
+ * Tree item for a bookmarked line, revealed on click
+ */
+export class BookmarkTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly source: string,
+        public readonly bookmark: Bookmark
+    ) {
+        super(bookmark.note || bookmark.text.trim() || '(empty line)', vscode.TreeItemCollapsibleState.None);
+
+        this.description = getViewTab(source) !== undefined ? `line ${bookmark.line}` : `line ${bookmark.line + 1}`;
+        this.tooltip = bookmark.note ? `${bookmark.note}\n${bookmark.text}` : bookmark.text;
+        this.iconPath = new vscode.ThemeIcon('bookmark');
+        this.contextValue = 'bookmark';
+
+        this.command = {
+            command: 'logcat-viewer.revealBookmark',
+            title: 'Reveal Bookmark',
+            arguments: [this]
+        };
+    }
+}
+
+/**
+ * Tree item for a document or a Logcat view tab, holding its bookmarks
+ */
+class BookmarkSourceTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly source: string,
+        tabLabel: string | undefined
+    ) {
+        super(tabLabel !== undefined ? `Logcat View: ${tabLabel}` : getDocumentName(source), vscode.TreeItemCollapsibleState.Expanded);
+
+        this.id = source;
+        this.iconPath = new vscode.ThemeIcon(tabLabel !== undefined ? 'output' : 'file');
+    }
+}
+
+/**
+ * Bookmarks tree data provider, grouped by document and Logcat view tab
+ */
+export class BookmarkTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(
+        private readonly store: BookmarkStore,
+        private readonly getTabLabel: (tabId: number) => string | undefined
+    ) {
+        store.onDidChange(() => this.refresh());
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+        if (element instanceof BookmarkSourceTreeItem) {
+            return this.store.get(element.source).map(bookmark => new BookmarkTreeItem(element.source, bookmark));
+        }
+        if (element) {
+            return [];
+        }
+
+        return this.store.getSources().map(source => {
+            const tabId = getViewTab(source);
+            return new BookmarkSourceTreeItem(source, tabId !== undefined ? this.getTabLabel(tabId) ?? 'Logcat' : undefined);
+        });
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+}
+
+function getDocumentName(source: string): string {
+    const document = vscode.workspace.textDocuments.find(document => document.uri.toString() === source);
+    if (document?.isUntitled) {
+        return document.uri.path;
+    }
+    const uri = vscode.Uri.parse(source);
+    return uri.path.split('/').pop() || source;
+}
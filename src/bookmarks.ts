@@ -0,0 +1,266 @@
+/**
+ * Bookmarks
+ * Marked log lines with optional notes, in logcat documents and in the
+ * Logcat view's session. A saved log keeps its bookmarks in a
+ * "<file>.bookmarks.json" file next to it, so it reopens with them.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+export interface Bookmark {
+    /** Document line, counting from 0, or line id in a Logcat view tab */
+    line: number;
+    note: string;
+    /** Text of the line, for the bookmark list */
+    text: string;
+}
+
+/** Scheme of the Logcat view tabs' bookmark sources; documents use their URI */
+const VIEW_SCHEME = 'logcat-view';
+
+/**
+ * Get the bookmark source of a Logcat view tab
+ */
+export function getViewSource(tabId: number): string {
+    return `${VIEW_SCHEME}:${tabId}`;
+}
+
+/**
+ * Get the Logcat view tab of a bookmark source, or undefined for a document
+ */
+export function getViewTab(source: string): number | undefined {
+    return source.startsWith(VIEW_SCHEME + ':') ? parseInt(source.slice(VIEW_SCHEME.length + 1), 10) : undefined;
+}
+
+const BOOKMARK_FILE_SUFFIX = '.bookmarks.json';
+const BOOKMARK_FILE_VERSION = 1;
+
+export function getBookmarkFilePath(logPath: string): string {
+    return logPath + BOOKMARK_FILE_SUFFIX;
+}
+
+/**
+ * Read the bookmarks saved next to a log file, if any
+ */
+export function readBookmarkFile(logPath: string): Bookmark[] {
+    try {
+        const data = JSON.parse(fs.readFileSync(getBookmarkFilePath(logPath), 'utf8'));
+        if (data?.version !== BOOKMARK_FILE_VERSION || !Array.isArray(data.bookmarks)) {
+            return [];
+        }
+        return data.bookmarks
+            .filter((bookmark: Partial<Bookmark>) => Number.isInteger(bookmark?.line) && bookmark.line! >= 0)
+            .map((bookmark: Partial<Bookmark>) => ({
+                line: bookmark.line!,
+                note: typeof bookmark.note === 'string' ? bookmark.note : '',
+                text: typeof bookmark.text === 'string' ? bookmark.text : ''
+            }));
+    } catch (error) {
+        // Missing or unreadable
+        return [];
+    }
+}
+
+/**
+ * Save bookmarks next to a log file; without bookmarks the file is removed
+ */
+export async function writeBookmarkFile(logPath: string, bookmarks: Bookmark[]): Promise<void> {
+    const filePath = getBookmarkFilePath(logPath);
+    if (bookmarks.length === 0) {
+        await fs.promises.rm(filePath, { force: true });
+        return;
+    }
+    const data = { version: BOOKMARK_FILE_VERSION, bookmarks };
+    await fs.promises.writeFile(filePath, JSON.stringify(data, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Bookmarks of every source, sorted by line
+ */
+export class BookmarkStore {
+    private _onDidChange = new vscode.EventEmitter<string>();
+    /** Fires with the source whose bookmarks changed */
+    readonly onDidChange = this._onDidChange.event;
+
+    private bookmarks = new Map<string, Bookmark[]>();
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    get(source: string): Bookmark[] {
+        return this.bookmarks.get(source) ?? [];
+    }
+
+    find(source: string, line: number): Bookmark | undefined {
+        return this.get(source).find(bookmark => bookmark.line === line);
+    }
+
+    /** Sources with bookmarks */
+    getSources(): string[] {
+        return [...this.bookmarks.keys()].filter(source => this.get(source).length > 0);
+    }
+
+    /** Whether a source's bookmarks are held, possibly none */
+    has(source: string): boolean {
+        return this.bookmarks.has(source);
+    }
+
+    /**
+     * Bookmark a line, or remove its bookmark. Returns whether it is bookmarked now.
+     */
+    toggle(source: string, line: number, text: string): boolean {
+        if (this.find(source, line)) {
+            this.remove(source, line);
+            return false;
+        }
+        this.set(source, [...this.get(source), { line, note: '', text }]);
+        return true;
+    }
+
+    /**
+     * Set the note of a line, bookmarking it if needed
+     */
+    setNote(source: string, line: number, text: string, note: string): void {
+        const others = this.get(source).filter(bookmark => bookmark.line !== line);
+        const existing = this.find(source, line);
+        this.set(source, [...others, { line, note, text: existing?.text ?? text }]);
+    }
+
+    remove(source: string, line: number): void {
+        this.set(source, this.get(source).filter(bookmark => bookmark.line !== line));
+    }
+
+    /**
+     * Replace the bookmarks of a source
+     */
+    set(source: string, bookmarks: Bookmark[]): void {
+        this.bookmarks.set(source, [...bookmarks].sort((a, b) => a.line - b.line));
+        this._onDidChange.fire(source);
+    }
+
+    /**
+     * Forget a source, e.g. a closed document; unlike clearing, this does
+     * not count as removing its bookmarks
+     */
+    unload(source: string): void {
+        if (this.bookmarks.delete(source)) {
+            this._onDidChange.fire(source);
+        }
+    }
+
+    /**
+     * Move document bookmarks along with an edit; bookmarks on removed
+     * lines go away
+     */
+    applyEdit(source: string, startLine: number, endLine: number, addedLines: number): void {
+        const delta = addedLines - (endLine - startLine);
+        const bookmarks = this.get(source);
+        if (delta === 0 || !bookmarks.some(bookmark => bookmark.line > startLine)) {
+            return;
+        }
+
+        const moved: Bookmark[] = [];
+        for (const bookmark of bookmarks) {
+            if (bookmark.line <= startLine) {
+                moved.push(bookmark);
+            } else if (bookmark.line > endLine) {
+                moved.push({ ...bookmark, line: bookmark.line + delta });
+            } else if (delta > 0) {
+                moved.push({ ...bookmark, line: bookmark.line + delta });
+            }
+        }
+        this.set(source, moved);
+    }
+}
+
+/**
+ * Show bookmarks in logcat editors, keep them in place while documents
+ * change, and load and save the bookmark files of saved logs
+ */
+export function registerEditorBookmarks(store: BookmarkStore): vscode.Disposable {
+    const decorationType = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.infoForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+
+    const decorate = (editor: vscode.TextEditor) => {
+        const bookmarks = store.get(editor.document.uri.toString());
+        editor.setDecorations(decorationType, bookmarks
+            .filter(bookmark => bookmark.line < editor.document.lineCount)
+            .map(bookmark => ({
+                range: new vscode.Range(bookmark.line, 0, bookmark.line, 0),
+                hoverMessage: bookmark.note || 'Bookmark',
+                renderOptions: {
+                    after: {
+                        contentText: bookmark.note ? `  🔖 ${bookmark.note}` : '  🔖',
+                        color: new vscode.ThemeColor('editorCodeLens.foreground')
+                    }
+                }
+            })));
+    };
+
+    const load = (document: vscode.TextDocument) => {
+        const source = document.uri.toString();
+        if (document.languageId === 'logcat' && document.uri.scheme === 'file' && !store.has(source)) {
+            const bookmarks = readBookmarkFile(document.uri.fsPath);
+            if (bookmarks.length > 0) {
+                store.set(source, bookmarks);
+            }
+        }
+    };
+
+    // Saved logs keep their bookmarks next to them. The bookmarks of a
+    // document with unsaved edits are written when it is saved, so they
+    // keep matching the lines of the file.
+    const save = (document: vscode.TextDocument) => {
+        const source = document.uri.toString();
+        if (document.uri.scheme === 'file' && store.has(source)) {
+            writeBookmarkFile(document.uri.fsPath, store.get(source)).catch(error =>
+                vscode.window.showErrorMessage(`Failed to save bookmarks: ${error}`));
+        }
+    };
+
+    vscode.workspace.textDocuments.forEach(load);
+    vscode.window.visibleTextEditors.forEach(decorate);
+
+    return vscode.Disposable.from(
+        decorationType,
+        vscode.workspace.onDidOpenTextDocument(load),
+        vscode.workspace.onDidSaveTextDocument(save),
+        vscode.workspace.onDidCloseTextDocument(document => store.unload(document.uri.toString())),
+        vscode.workspace.onDidChangeTextDocument(event => {
+            const source = event.document.uri.toString();
+            for (const change of event.contentChanges) {
+                const addedLines = change.text.split('\n').length - 1;
+                store.applyEdit(source, change.range.start.line, change.range.end.line, addedLines);
+            }
+        }),
+        vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(decorate)),
+        store.onDidChange(source => {
+            vscode.window.visibleTextEditors
+                .filter(editor => editor.document.uri.toString() === source)
+                .forEach(decorate);
+
+            const document = getViewTab(source) === undefined
+                ? vscode.workspace.textDocuments.find(document => document.uri.toString() === source)
+                : undefined;
+            if (document && !document.isDirty) {
+                save(document);
+            }
+        })
+    );
+}
+
+/**
+ * Find the next or previous bookmark after a line, wrapping around
+ */
+export function findNextBookmark(bookmarks: Bookmark[], line: number, forward: boolean): Bookmark | undefined {
+    if (forward) {
+        return bookmarks.find(bookmark => bookmark.line > line) ?? bookmarks[0];
+    }
+    return [...bookmarks].reverse().find(bookmark => bookmark.line < line) ?? bookmarks[bookmarks.length - 1];
+}
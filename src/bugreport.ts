@@ -0,0 +1,195 @@
+/**
+ * Bugreport
+ * Reads Android bugreport zips into logcat buffers and browsable sections
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogEntry, parseLogcat } from './logcatParser';
+import { readZipEntries, readZipEntry } from './zipReader';
+
+export type BugreportSectionKind = 'log' | 'dumpsys' | 'properties' | 'other';
+
+export interface BugreportSection {
+    title: string;
+    kind: BugreportSectionKind;
+    /** Command that produced the section, e.g. "logcat -b events -d" */
+    command?: string;
+    text: string;
+}
+
+export interface Bugreport {
+    fileName: string;
+    /** Parsed logcat entries per buffer (main, system, crash, events, ...) */
+    buffers: Map<string, LogEntry[]>;
+    sections: BugreportSection[];
+    /** Individual "DUMP OF SERVICE" blocks of the DUMPSYS sections */
+    services: BugreportSection[];
+}
+
+// "------ SYSTEM LOG (logcat -v threadtime -v printable -v uid -d *:v) ------"
+const SECTION_HEADER_PATTERN = /^------ (.+?)(?: \((.*)\))? ------$/;
+
+// "------ 0.123s was the duration of 'SYSTEM LOG' ------"
+const SECTION_DURATION_PATTERN = /was the duration of/;
+
+// "DUMP OF SERVICE activity:" or "DUMP OF SERVICE CRITICAL SurfaceFlinger:"
+const SERVICE_HEADER_PATTERN = /^DUMP OF SERVICE (?:CRITICAL |HIGH |NORMAL )?(\S+):$/;
+
+// "--------- beginning of main" / "--------- switch to system"
+const BUFFER_MARKER_PATTERN = /^--------- (?:beginning of|switch to) (\w+)/;
+
+// Log sections and the buffer their lines belong to when there is no marker
+const LOG_SECTIONS: Record<string, string> = {
+    'SYSTEM LOG': 'main',
+    'EVENT LOG': 'events',
+    'RADIO LOG': 'radio',
+    'STATS LOG': 'stats',
+    'LAST LOGCAT': 'last'
+};
+
+/**
+ * Read a bugreport zip and parse its main text file
+ */
+export async function readBugreportZip(zipPath: string): Promise<Bugreport> {
+    const zip = await fs.promises.readFile(zipPath);
+    const entries = readZipEntries(zip);
+
+    // main_entry.txt names the main report; fall back to the largest bugreport-*.txt
+    let mainName: string | undefined;
+    const mainEntry = entries.find(entry => entry.name === 'main_entry.txt');
+    if (mainEntry) {
+        mainName = readZipEntry(zip, mainEntry).toString('utf8').trim();
+    }
+
+    const report = entries.find(entry => entry.name === mainName)
+        ?? entries
+            .filter(entry => /^bugreport.*\.txt$/.test(path.posix.basename(entry.name)))
+            .sort((a, b) => b.uncompressedSize - a.uncompressedSize)[0];
+
+    if (!report) {
+        throw new Error('No bugreport text found in zip');
+    }
+
+    const text = readZipEntry(zip, report).toString('utf8');
+    return parseBugreport(text, path.basename(zipPath));
+}
+
+/**
+ * Split bugreport text into sections, logcat buffers and dumpsys services
+ */
+export function parseBugreport(text: string, fileName: string): Bugreport {
+    const sections: BugreportSection[] = [];
+    const bufferLines = new Map<string, string[]>();
+    let current: { title: string; command?: string; lines: string[] } | null = null;
+    let currentBuffer: string | undefined;
+
+    const closeSection = () => {
+        if (current) {
+            sections.push({
+                title: current.title,
+                kind: getSectionKind(current.title),
+                command: current.command,
+                text: current.lines.join('\n')
+            });
+        }
+        current = null;
+    };
+
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.replace(/\r$/, '');
+        const header = line.match(SECTION_HEADER_PATTERN);
+
+        if (header) {
+            closeSection();
+            if (!SECTION_DURATION_PATTERN.test(line)) {
+                current = { title: header[1], command: header[2], lines: [] };
+                currentBuffer = LOG_SECTIONS[header[1]];
+            }
+            continue;
+        }
+
+        if (!current) {
+            continue;
+        }
+        current.lines.push(line);
+
+        if (!LOG_SECTIONS[current.title]) {
+            continue;
+        }
+
+        const marker = line.match(BUFFER_MARKER_PATTERN);
+        if (marker) {
+            currentBuffer = marker[1];
+            continue;
+        }
+
+        if (currentBuffer) {
+            const lines = bufferLines.get(currentBuffer) ?? [];
+            lines.push(line);
+            bufferLines.set(currentBuffer, lines);
+        }
+    }
+    closeSection();
+
+    const buffers = new Map<string, LogEntry[]>();
+    for (const [buffer, lines] of bufferLines) {
+        const entries = parseLogcat(lines.join('\n'));
+        entries.forEach(entry => entry.buffer = buffer);
+        buffers.set(buffer, entries);
+    }
+
+    const services = sections
+        .filter(section => section.kind === 'dumpsys')
+        .flatMap(section => splitServices(section.text));
+
+    return { fileName, buffers, sections, services };
+}
+
+/**
+ * Classify a section by its title
+ */
+function getSectionKind(title: string): BugreportSectionKind {
+    if (LOG_SECTIONS[title]) {
+        return 'log';
+    }
+    if (title.startsWith('DUMPSYS')) {
+        return 'dumpsys';
+    }
+    if (title === 'SYSTEM PROPERTIES') {
+        return 'properties';
+    }
+    return 'other';
+}
+
+/**
+ * Split a DUMPSYS section into its "DUMP OF SERVICE" blocks
+ */
+function splitServices(text: string): BugreportSection[] {
+    const services: BugreportSection[] = [];
+    let current: { title: string; lines: string[] } | null = null;
+
+    const closeService = () => {
+        if (current) {
+            // Drop the trailing separator and duration lines
+            while (current.lines.length > 0 && /^(-{10,}|--------- .* was the duration of|\s*$)/.test(current.lines[current.lines.length - 1])) {
+                current.lines.pop();
+            }
+            services.push({ title: current.title, kind: 'dumpsys', text: current.lines.join('\n') });
+        }
+        current = null;
+    };
+
+    for (const line of text.split('\n')) {
+        const header = line.match(SERVICE_HEADER_PATTERN);
+        if (header) {
+            closeService();
+            current = { title: header[1], lines: [] };
+        } else if (current) {
+            current.lines.push(line);
+        }
+    }
+    closeService();
+
+    return services;
+}
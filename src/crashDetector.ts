@@ -0,0 +1,251 @@
+/**
+ * Crash Detector
+ * Groups the lines of Java crashes, native tombstones and ANRs into incidents
+ */
+
+import { LogEntry, parseLogcat } from './logcatParser';
+
+export type CrashKind = 'java' | 'native' | 'anr';
+
+export interface CrashIncident {
+    id: number;
+    kind: CrashKind;
+    entries: LogEntry[];
+    exceptionType?: string;
+    packageName?: string;
+    pid?: number;
+    topFrame?: string;
+    timestamp?: Date;
+    timestampStr?: string;
+}
+
+interface CrashStart {
+    kind: CrashKind;
+    tag: string;
+    pattern: RegExp;
+}
+
+// Lines that open a new incident
+const CRASH_STARTS: CrashStart[] = [
+    { kind: 'java', tag: 'AndroidRuntime', pattern: /^FATAL EXCEPTION:/ },
+    { kind: 'native', tag: 'DEBUG', pattern: /^\*\*\* \*\*\* \*\*\*/ },
+    { kind: 'anr', tag: 'ActivityManager', pattern: /^ANR in / }
+];
+
+// Java: "Process: com.example.app, PID: 1234"
+const JAVA_PROCESS_PATTERN = /^Process:\s*([^,\s]+),\s*PID:\s*(\d+)/;
+
+// Java: "java.lang.IllegalStateException: message" or "Caused by: ..."
+const JAVA_EXCEPTION_PATTERN = /^(?:Caused by:\s*)?((?:[a-zA-Z_$][\w$]*\.)+[\w$]*(?:Exception|Error|Throwable)[\w$]*)(?::|$)/;
+
+// Java: "\tat com.example.app.MainActivity.onCreate(MainActivity.kt:42)"
+const JAVA_FRAME_PATTERN = /^\s*at\s+(.+)$/;
+
+// Native: "pid: 1234, tid: 1234, name: main  >>> com.example.app <<<"
+const NATIVE_PROCESS_PATTERN = /^pid:\s*(\d+),.*>>>\s*(\S+)\s*<<</;
+
+// Native: "signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0"
+const NATIVE_SIGNAL_PATTERN = /^signal\s+\d+\s+\((\w+)\)/;
+
+// Native: "#00 pc 0001a2b4  /data/app/.../lib/arm64/libfoo.so (func+12)"
+const NATIVE_FRAME_PATTERN = /^\s*#\d+\s+pc\s+[0-9a-fA-F]+\s+(.+)$/;
+
+// ANR: "ANR in com.example.app (com.example.app/.MainActivity)" and "PID: 1234"
+const ANR_PROCESS_PATTERN = /^ANR in\s+(\S+)/;
+const ANR_PID_PATTERN = /^PID:\s*(\d+)/;
+
+// Unrelated entries tolerated inside an incident before it is closed
+const MAX_UNRELATED_ENTRIES = 50;
+
+/**
+ * Incremental crash detector for streamed entries.
+ *
+ * Lines belong to an open incident while they come from the same tag and
+ * PID as its first line. An incident is complete once a new one starts in
+ * the same process, too many unrelated lines pass, or flush() is called.
+ * An ANR report is logged at one priority, so it also ends at the first
+ * line of its tag and PID with another priority.
+ */
+export class CrashDetector {
+    private nextId = 1;
+    private open: CrashIncident[] = [];
+    private unrelatedCounts = new Map<CrashIncident, number>();
+
+    /**
+     * Feed an entry; returns the incident it belongs to, if any
+     */
+    push(entry: LogEntry): CrashIncident | undefined {
+        const start = findCrashStart(entry);
+        if (start) {
+            const incident: CrashIncident = {
+                id: this.nextId++,
+                kind: start.kind,
+                entries: [],
+                pid: entry.pid,
+                timestamp: entry.timestamp,
+                timestampStr: entry.timestampStr
+            };
+            // The header's PID; collected details may name another process
+            this.open = this.open.filter(other => !(other.entries[0].tag === entry.tag && other.entries[0].pid === entry.pid));
+            this.open.push(incident);
+            this.unrelatedCounts.set(incident, 0);
+            addToIncident(incident, entry);
+            return incident;
+        }
+
+        let owner: CrashIncident | undefined;
+        const ended = new Set<CrashIncident>();
+        for (const incident of this.open) {
+            const first = incident.entries[0];
+            if (owner || entry.tag !== first.tag || entry.pid !== first.pid) {
+                this.unrelatedCounts.set(incident, (this.unrelatedCounts.get(incident) ?? 0) + 1);
+            } else if (incident.kind === 'anr' && entry.priority !== first.priority) {
+                ended.add(incident);
+            } else {
+                owner = incident;
+                this.unrelatedCounts.set(incident, 0);
+                addToIncident(incident, entry);
+            }
+        }
+
+        this.open = this.open.filter(incident =>
+            !ended.has(incident) && (this.unrelatedCounts.get(incident) ?? 0) <= MAX_UNRELATED_ENTRIES);
+        return owner;
+    }
+
+    /**
+     * Close all open incidents
+     */
+    flush(): void {
+        this.open = [];
+        this.unrelatedCounts.clear();
+    }
+
+    /**
+     * Forget all state and restart incident numbering
+     */
+    reset(): void {
+        this.flush();
+        this.nextId = 1;
+    }
+}
+
+/**
+ * Find all crash incidents in a list of entries
+ */
+export function detectCrashes(entries: LogEntry[]): CrashIncident[] {
+    const detector = new CrashDetector();
+    const incidents: CrashIncident[] = [];
+
+    for (const entry of entries) {
+        const incident = detector.push(entry);
+        if (incident && incident.entries.length === 1) {
+            incidents.push(incident);
+        }
+    }
+
+    return incidents;
+}
+
+/**
+ * Find all crash incidents in logcat text
+ */
+export function detectCrashesInText(text: string): CrashIncident[] {
+    return detectCrashes(parseLogcat(text));
+}
+
+/**
+ * Get the one-line title of an incident, e.g. "java.lang.NullPointerException"
+ */
+export function getCrashTitle(incident: CrashIncident): string {
+    if (incident.exceptionType) {
+        return incident.exceptionType;
+    }
+    switch (incident.kind) {
+        case 'java':
+            return 'Java crash';
+        case 'native':
+            return 'Native crash';
+        case 'anr':
+            return 'ANR';
+    }
+}
+
+/**
+ * Get a short description of an incident: package, PID and top frame
+ */
+export function getCrashSummary(incident: CrashIncident): string {
+    const parts: string[] = [getCrashTitle(incident)];
+    if (incident.packageName) {
+        parts.push(`in ${incident.packageName}`);
+    }
+    if (incident.pid !== undefined) {
+        parts.push(`(pid ${incident.pid})`);
+    }
+    if (incident.topFrame) {
+        parts.push(`at ${incident.topFrame}`);
+    }
+    return parts.join(' ');
+}
+
+/**
+ * Check whether an entry opens a new incident
+ */
+function findCrashStart(entry: LogEntry): CrashStart | undefined {
+    if (!entry.tag || entry.message === undefined) {
+        return undefined;
+    }
+    return CRASH_STARTS.find(start => start.tag === entry.tag && start.pattern.test(entry.message!));
+}
+
+/**
+ * Add an entry to an incident and pick up the details it carries
+ */
+function addToIncident(incident: CrashIncident, entry: LogEntry): void {
+    incident.entries.push(entry);
+
+    // Long format entries carry several lines in one message
+    for (const line of (entry.message ?? '').split('\n')) {
+        collectDetails(incident, line);
+    }
+}
+
+/**
+ * Extract exception type, package, PID and top frame from a message line
+ */
+function collectDetails(incident: CrashIncident, line: string): void {
+    let match: RegExpMatchArray | null;
+
+    switch (incident.kind) {
+        case 'java':
+            if ((match = line.match(JAVA_PROCESS_PATTERN))) {
+                incident.packageName = match[1];
+                incident.pid = parseInt(match[2], 10);
+            } else if (!incident.exceptionType && (match = line.match(JAVA_EXCEPTION_PATTERN))) {
+                incident.exceptionType = match[1];
+            } else if (!incident.topFrame && (match = line.match(JAVA_FRAME_PATTERN))) {
+                incident.topFrame = match[1].trim();
+            }
+            break;
+
+        case 'native':
+            if ((match = line.match(NATIVE_PROCESS_PATTERN))) {
+                incident.pid = parseInt(match[1], 10);
+                incident.packageName = match[2];
+            } else if (!incident.exceptionType && (match = line.match(NATIVE_SIGNAL_PATTERN))) {
+                incident.exceptionType = match[1];
+            } else if (!incident.topFrame && (match = line.match(NATIVE_FRAME_PATTERN))) {
+                incident.topFrame = match[1].trim();
+            }
+            break;
+
+        case 'anr':
+            if ((match = line.match(ANR_PROCESS_PATTERN))) {
+                incident.packageName = match[1];
+                incident.exceptionType = 'ANR';
+            } else if ((match = line.match(ANR_PID_PATTERN))) {
+                incident.pid = parseInt(match[1], 10);
+            }
+            break;
+    }
+}
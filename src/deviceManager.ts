@@ -39,6 +39,14 @@ export function findAdbPath(): string {
     return 'adb';
 }
 
+/**
+ * Get the arguments that point adb at a device; without one, adb uses the
+ * only device connected
+ */
+export function getDeviceArgs(deviceId?: string): string[] {
+    return deviceId ? ['-s', deviceId] : [];
+}
+
 /**
  * Get list of connected Android devices
  */
@@ -87,6 +95,65 @@ export async function getConnectedDevices(): Promise<AndroidDevice[]> {
     });
 }
 
+/**
+ * Get the PIDs of a running package, empty if it is not running or the
+ * lookup was aborted
+ */
+export async function getPackagePids(packageName: string, deviceId?: string, signal?: AbortSignal): Promise<number[]> {
+    const adbPath = findAdbPath();
+    
+    return new Promise((resolve) => {
+        cp.execFile(adbPath, [...getDeviceArgs(deviceId), 'shell', 'pidof', packageName], { signal }, (error, stdout) => {
+            if (!error) {
+                resolve(stdout.trim().split(/\s+/).filter(pid => /^\d+$/.test(pid)).map(pid => parseInt(pid, 10)));
+                return;
+            }
+            if (signal?.aborted) {
+                resolve([]);
+                return;
+            }
+            
+            // pidof fails when nothing matches and is missing on old devices, so ask ps
+            getProcessNames(deviceId, signal).then(names => {
+                const pids: number[] = [];
+                for (const [pid, name] of names) {
+                    if (name === packageName || name.startsWith(packageName + ':')) {
+                        pids.push(pid);
+                    }
+                }
+                resolve(pids);
+            });
+        });
+    });
+}
+
+/**
+ * Get the names of the device's running processes by PID
+ */
+export async function getProcessNames(deviceId?: string, signal?: AbortSignal): Promise<Map<number, string>> {
+    const adbPath = findAdbPath();
+    
+    return new Promise((resolve) => {
+        cp.execFile(adbPath, [...getDeviceArgs(deviceId), 'shell', 'ps', '-A'], { signal }, (error, stdout) => {
+            const names = new Map<number, string>();
+            if (error) {
+                resolve(names);
+                return;
+            }
+            
+            // "u0_a123  12345  678 ... S com.example.app:remote"
+            for (const line of stdout.trim().split('\n').slice(1)) {
+                const columns = line.trim().split(/\s+/);
+                const pid = parseInt(columns[1], 10);
+                if (!isNaN(pid)) {
+                    names.set(pid, columns[columns.length - 1]);
+                }
+            }
+            resolve(names);
+        });
+    });
+}
+
 /**
  * Show device picker and return selected device
  */
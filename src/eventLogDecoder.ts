@@ -0,0 +1,341 @@
+/**
+ * Event Log Decoder
+ * Decodes binary event buffer records ("adb logcat -b events -B") into
+ * structured log entries, using event-log-tags for names and field types
+ */
+
+import * as cp from 'child_process';
+import { LogEntry, LogPriority } from './logcatParser';
+
+/** Location of the tag definitions on the device */
+export const EVENT_LOG_TAGS_PATH = '/system/etc/event-log-tags';
+
+/**
+ * Value types used both in the binary payload and in event-log-tags
+ */
+export enum EventValueType {
+    INT = 0,
+    LONG = 1,
+    STRING = 2,
+    LIST = 3,
+    FLOAT = 4
+}
+
+// Longs outside the safe integer range are kept as strings so entries stay JSON-safe
+export type EventValue = number | string | EventValue[];
+
+export interface EventLogField {
+    name: string;
+    type?: EventValueType;
+}
+
+export interface EventLogTag {
+    tagNumber: number;
+    name: string;
+    fields: EventLogField[];
+}
+
+export interface EventLogData {
+    tagNumber: number;
+    name?: string;
+    values: EventValue[];
+    fields: EventLogField[];
+}
+
+// Header sizes of the logger_entry versions; v1 has no hdr_size field
+const V1_HEADER_SIZE = 20;
+const V2_HEADER_SIZE = 24;
+const V4_HEADER_SIZE = 28;
+
+// Type codes in event-log-tags are offset by one from the payload types
+const TAG_FILE_TYPES: Record<string, EventValueType> = {
+    '1': EventValueType.INT,
+    '2': EventValueType.LONG,
+    '3': EventValueType.STRING,
+    '4': EventValueType.LIST,
+    '5': EventValueType.FLOAT
+};
+
+/**
+ * Parse the contents of an event-log-tags file, e.g.
+ * "30014 am_proc_start (User|1|5),(PID|1|5),(UID|1|5),(Process Name|3)"
+ */
+export function parseEventLogTags(text: string): Map<number, EventLogTag> {
+    const tags = new Map<number, EventLogTag>();
+
+    for (const line of text.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) {
+            continue;
+        }
+
+        const match = trimmed.match(/^(\d+)\s+(\S+)\s*(.*)$/);
+        if (!match) {
+            continue;
+        }
+
+        const fields: EventLogField[] = [];
+        const fieldPattern = /\(([^|)]+)(?:\|(\d+))?(?:\|[^)]*)?\)/g;
+        let fieldMatch: RegExpExecArray | null;
+        while ((fieldMatch = fieldPattern.exec(match[3])) !== null) {
+            fields.push({
+                name: fieldMatch[1].trim(),
+                type: fieldMatch[2] ? TAG_FILE_TYPES[fieldMatch[2]] : undefined
+            });
+        }
+
+        const tagNumber = parseInt(match[1], 10);
+        tags.set(tagNumber, { tagNumber, name: match[2], fields });
+    }
+
+    return tags;
+}
+
+/**
+ * Read the event-log-tags file from the device the arguments (see
+ * getDeviceArgs) point adb at. Resolves to an empty map if it cannot be
+ * read, so events still decode with numeric tags.
+ */
+export function fetchEventLogTags(adbPath: string, deviceArgs: string[]): Promise<Map<number, EventLogTag>> {
+    return new Promise((resolve) => {
+        cp.execFile(adbPath, [...deviceArgs, 'shell', 'cat', EVENT_LOG_TAGS_PATH], { maxBuffer: 4 * 1024 * 1024 }, (error, stdout) => {
+            resolve(error ? new Map() : parseEventLogTags(stdout));
+        });
+    });
+}
+
+/**
+ * Incremental decoder for the binary event buffer.
+ *
+ * Records may be split across chunks; incomplete records are kept until
+ * the rest of their bytes arrive.
+ */
+export class EventLogDecoder {
+    private pending: Buffer = Buffer.alloc(0);
+    private recordNumber = 0;
+
+    constructor(private tags: Map<number, EventLogTag> = new Map()) {}
+
+    /**
+     * Replace the tag definitions used to name events
+     */
+    setTags(tags: Map<number, EventLogTag>): void {
+        this.tags = tags;
+    }
+
+    /**
+     * Feed a chunk of binary output and return the entries it completed
+     */
+    push(chunk: Buffer): LogEntry[] {
+        this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+
+        const entries: LogEntry[] = [];
+        let offset = 0;
+
+        while (this.pending.length - offset >= 4) {
+            const payloadLength = this.pending.readUInt16LE(offset);
+            const headerSize = getHeaderSize(this.pending.readUInt16LE(offset + 2));
+            const recordLength = headerSize + payloadLength;
+
+            if (this.pending.length - offset < recordLength) {
+                break;
+            }
+
+            const record = this.pending.subarray(offset, offset + recordLength);
+            entries.push(this.decodeRecord(record, headerSize));
+            offset += recordLength;
+        }
+
+        this.pending = this.pending.subarray(offset);
+        return entries;
+    }
+
+    /**
+     * Finish the stream; a trailing partial record cannot be decoded and is dropped
+     */
+    end(): LogEntry[] {
+        this.pending = Buffer.alloc(0);
+        return [];
+    }
+
+    /**
+     * Discard any partial record and restart numbering
+     */
+    reset(): void {
+        this.pending = Buffer.alloc(0);
+        this.recordNumber = 0;
+    }
+
+    private decodeRecord(record: Buffer, headerSize: number): LogEntry {
+        this.recordNumber++;
+
+        const pid = record.readInt32LE(4);
+        const tid = record.readInt32LE(8);
+        const sec = record.readUInt32LE(12);
+        const nsec = record.readUInt32LE(16);
+        const uid = headerSize >= V4_HEADER_SIZE ? record.readUInt32LE(24) : undefined;
+
+        const event = decodeEventPayload(record.subarray(headerSize), this.tags);
+        const timestamp = new Date(sec * 1000 + Math.floor(nsec / 1e6));
+        const timestampStr = formatEventTimestamp(timestamp);
+        const tag = event.name ?? String(event.tagNumber);
+        const message = formatEventValues(event);
+
+        return {
+            raw: `${timestampStr} ${pid.toString().padStart(5)} ${tid.toString().padStart(5)} ${LogPriority.INFO} ${tag}: ${message}`,
+            lineNumber: this.recordNumber,
+            timestamp,
+            timestampStr,
+            nanos: nsec,
+            uid: uid !== undefined ? String(uid) : undefined,
+            pid,
+            tid,
+            priority: LogPriority.INFO,
+            tag,
+            message,
+            event
+        };
+    }
+}
+
+/**
+ * Get the header size of a record from its hdr_size field
+ */
+function getHeaderSize(hdrSize: number): number {
+    return hdrSize === V2_HEADER_SIZE || hdrSize === V4_HEADER_SIZE ? hdrSize : V1_HEADER_SIZE;
+}
+
+/**
+ * Decode an event payload: a 32-bit tag number followed by one typed value
+ */
+export function decodeEventPayload(payload: Buffer, tags: Map<number, EventLogTag>): EventLogData {
+    const tagNumber = payload.length >= 4 ? payload.readInt32LE(0) : -1;
+    const tag = tags.get(tagNumber);
+    const values: EventValue[] = [];
+
+    if (payload.length > 4) {
+        const reader = { offset: 4 };
+        const value = readValue(payload, reader);
+        if (value !== undefined) {
+            // A list is the event's field list; a single value is its only field
+            if (Array.isArray(value)) {
+                values.push(...value);
+            } else {
+                values.push(value);
+            }
+        }
+    }
+
+    return {
+        tagNumber,
+        name: tag?.name,
+        values,
+        fields: tag?.fields ?? []
+    };
+}
+
+/**
+ * Read one typed value, returning undefined if the payload is truncated
+ */
+function readValue(payload: Buffer, reader: { offset: number }): EventValue | undefined {
+    if (reader.offset >= payload.length) {
+        return undefined;
+    }
+
+    const type = payload.readUInt8(reader.offset);
+    reader.offset++;
+
+    switch (type) {
+        case EventValueType.INT: {
+            if (reader.offset + 4 > payload.length) {
+                return undefined;
+            }
+            const value = payload.readInt32LE(reader.offset);
+            reader.offset += 4;
+            return value;
+        }
+        case EventValueType.LONG: {
+            if (reader.offset + 8 > payload.length) {
+                return undefined;
+            }
+            const value = payload.readBigInt64LE(reader.offset);
+            reader.offset += 8;
+            return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+                ? Number(value)
+                : value.toString();
+        }
+        case EventValueType.FLOAT: {
+            if (reader.offset + 4 > payload.length) {
+                return undefined;
+            }
+            const value = payload.readFloatLE(reader.offset);
+            reader.offset += 4;
+            return value;
+        }
+        case EventValueType.STRING: {
+            if (reader.offset + 4 > payload.length) {
+                return undefined;
+            }
+            const length = payload.readInt32LE(reader.offset);
+            if (length < 0) {
+                return undefined;
+            }
+            reader.offset += 4;
+            const end = Math.min(reader.offset + length, payload.length);
+            const value = payload.toString('utf8', reader.offset, end);
+            reader.offset = end;
+            return value;
+        }
+        case EventValueType.LIST: {
+            if (reader.offset + 1 > payload.length) {
+                return undefined;
+            }
+            const count = payload.readUInt8(reader.offset);
+            reader.offset++;
+            const items: EventValue[] = [];
+            for (let i = 0; i < count; i++) {
+                const item = readValue(payload, reader);
+                if (item === undefined) {
+                    break;
+                }
+                items.push(item);
+            }
+            return items;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Format event values like "logcat -v descriptive": "[User=0,PID=1234]"
+ */
+export function formatEventValues(event: EventLogData): string {
+    const parts = event.values.map((value, index) => {
+        const field = event.fields[index];
+        const text = formatEventValue(value);
+        return field ? `${field.name}=${text}` : text;
+    });
+    return event.values.length === 1 && event.fields.length <= 1 && !Array.isArray(event.values[0])
+        ? parts[0]
+        : `[${parts.join(',')}]`;
+}
+
+/**
+ * Format a single (possibly nested) event value
+ */
+function formatEventValue(value: EventValue): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(formatEventValue).join(',')}]`;
+    }
+    return String(value);
+}
+
+/**
+ * Format a timestamp like threadtime output: "MM-DD HH:MM:SS.mmm"
+ */
+function formatEventTimestamp(date: Date): string {
+    const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+    return `${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+        `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
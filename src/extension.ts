@@ -1,15 +1,41 @@
 import * as vscode from 'vscode';
 import { LogcatViewProvider, dispose as disposeLogcat } from './logcatViewProvider';
 import { createAndroidProject } from './androidProject';
-import { buildAndRunAndroid, buildAndroid, cleanAndroid, installAndroid, runOnDevice } from './androidRunner';
-import { pickDevice, AndroidDevice } from './deviceManager';
-import { DeviceTreeProvider, ActionsTreeProvider } from './androidTreeViews';
+import { buildAndRunAndroid, buildAndroid, cleanAndroid, installAndroid, runOnDevice, pickMappingFile, findUnstrippedLibraries } from './androidRunner';
+import { pickDevice, AndroidDevice, getPackagePids } from './deviceManager';
+import { DeviceTreeProvider, ActionsTreeProvider, CrashTreeProvider, BugreportTreeProvider, BookmarkTreeProvider, BookmarkTreeItem } from './androidTreeViews';
+import { CrashIncident, detectCrashes, detectCrashesInText } from './crashDetector';
+import { LogcatFoldingRangeProvider } from './logcatFolding';
+import { entriesToText } from './logcatParser';
+import { loadMapping, retraceText } from './retrace';
+import { symbolizeText } from './nativeSymbolizer';
+import { LogcatDocumentLinkProvider, clearSourceCache } from './logcatLinks';
+import { readBugreportZip } from './bugreport';
+import { parseQuery, getQueryPackages, hasQueryField } from './logQuery';
+import { applyFilterToDocument, filterByQuery } from './logcatSorter';
+import { findStartedPids } from './packageTracker';
+import { FilterPresetStore, pickPreset } from './filterPresets';
+import { analyzeText, showNoiseReport } from './noiseReport';
+import { BookmarkStore, findNextBookmark, getViewTab, registerEditorBookmarks } from './bookmarks';
+import { HighlightRuleStore } from './highlightRules';
+import { registerColorizer } from './logcatColorizer';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Android Dev Tools extension is now active');
     
     // Register the webview view provider for the sidebar (Logcat)
-    const logcatProvider = new LogcatViewProvider(context.extensionUri);
+    const presetStore = new FilterPresetStore(context.workspaceState);
+    const bookmarkStore = new BookmarkStore();
+    const highlightStore = new HighlightRuleStore();
+    const logcatProvider = new LogcatViewProvider(
+        context.extensionUri,
+        presetStore,
+        context.workspaceState,
+        bookmarkStore,
+        highlightStore,
+        (context.storageUri ?? context.globalStorageUri).fsPath
+    );
+    context.subscriptions.push(presetStore, bookmarkStore, highlightStore, logcatProvider);
     
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
@@ -29,6 +55,34 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.window.registerTreeDataProvider('androidDevices', deviceTreeProvider)
     );
 
+    // Register Crashes tree view, fed by the Logcat view's crash detector
+    const crashTreeProvider = new CrashTreeProvider();
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('androidCrashes', crashTreeProvider),
+        logcatProvider.onDidDetectCrash(incident => crashTreeProvider.addIncident(incident))
+    );
+
+    // Register Bugreport tree view, shown once a bugreport is opened
+    const bugreportTreeProvider = new BugreportTreeProvider();
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('androidBugreport', bugreportTreeProvider)
+    );
+
+    // Fold crash incidents in logcat documents
+    context.subscriptions.push(
+        vscode.languages.registerFoldingRangeProvider({ language: 'logcat' }, new LogcatFoldingRangeProvider())
+    );
+
+    // Make symbolized source locations and project stack frames in logcat documents clickable
+    const sourceWatcher = vscode.workspace.createFileSystemWatcher('**/src/*/{java,kotlin}/**/*.{java,kt}', false, true, false);
+    context.subscriptions.push(
+        vscode.languages.registerDocumentLinkProvider({ language: 'logcat' }, new LogcatDocumentLinkProvider()),
+        sourceWatcher,
+        sourceWatcher.onDidCreate(clearSourceCache),
+        sourceWatcher.onDidDelete(clearSourceCache),
+        vscode.workspace.onDidChangeWorkspaceFolders(clearSourceCache)
+    );
+
     // Register Actions tree view
     const actionsTreeProvider = new ActionsTreeProvider();
     context.subscriptions.push(
@@ -65,6 +119,7 @@ export function activate(context: vscode.ExtensionContext) {
             const device = await pickDevice();
             if (device) {
                 deviceTreeProvider.setSelectedDevice(device);
+                logcatProvider.setDefaultDevice(device.id);
                 vscode.window.showInformationMessage(`Selected device: ${device.name} (${device.id})`);
             }
         })
@@ -73,6 +128,7 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('android.refreshDevices', () => {
             deviceTreeProvider.refresh();
+            logcatProvider.refreshDevices();
         })
     );
 
@@ -82,6 +138,426 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('android.showCrash', async (incident: CrashIncident) => {
+            const document = await vscode.workspace.openTextDocument({
+                language: 'logcat',
+                content: entriesToText(incident.entries)
+            });
+            await vscode.window.showTextDocument(document, { preview: true });
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('android.clearCrashes', () => {
+            crashTreeProvider.clear();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.findCrashes', () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showWarningMessage('Open a logcat document first');
+                return;
+            }
+            
+            const incidents = detectCrashesInText(editor.document.getText());
+            incidents.forEach(incident => crashTreeProvider.addIncident(incident));
+            vscode.window.showInformationMessage(`Found ${incidents.length} crash incident(s)`);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.filterDocument', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showWarningMessage('Open a logcat document first');
+                return;
+            }
+            
+            const text = await vscode.window.showInputBox({
+                prompt: 'Filter query, e.g. tag:OkHttp level>=W -tag:chatty message~/timeout \\d+/ age:5m',
+                placeHolder: 'tag:, message:, pid:, level>=, package:, age:, AND, OR, NOT, ( )',
+                validateInput: value => {
+                    try {
+                        parseQuery(value);
+                        return undefined;
+                    } catch (error) {
+                        return (error as Error).message;
+                    }
+                }
+            });
+            const query = text !== undefined ? parseQuery(text) : undefined;
+            if (!query) {
+                return;
+            }
+            
+            // Package terms match the app's PIDs on the connected device and
+            // the processes the log shows it starting
+            const devicePids: Record<string, number[]> = {};
+            for (const packageName of getQueryPackages(query)) {
+                devicePids[packageName] = await getPackagePids(packageName);
+            }
+            
+            await applyFilterToDocument(editor.document, entries => {
+                // is:crash needs the lines of each crash tagged, as the Logcat view does
+                if (hasQueryField(query, 'is')) {
+                    for (const incident of detectCrashes(entries)) {
+                        incident.entries.forEach(entry => entry.crashId = incident.id);
+                    }
+                }
+                const packages: Record<string, number[]> = {};
+                for (const [packageName, pids] of Object.entries(devicePids)) {
+                    packages[packageName] = [...new Set([...pids, ...findStartedPids(entries, packageName)])];
+                }
+                return filterByQuery(entries, query, packages);
+            });
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.analyzeNoise', () => {
+            // The open logcat document, or else the Logcat view's session
+            const editor = vscode.window.activeTextEditor;
+            if (editor && editor.document.languageId === 'logcat') {
+                const document = editor.document;
+                showNoiseReport(analyzeText(document.getText()), vscode.workspace.asRelativePath(document.uri), document);
+                return;
+            }
+            
+            const { report, revealLines } = logcatProvider.getNoiseReport();
+            if (report.totalLines === 0) {
+                vscode.window.showWarningMessage('Open a logcat document or capture logs in the Logcat view first');
+                return;
+            }
+            showNoiseReport(report, 'Logcat view', revealLines);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.retraceDocument', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showWarningMessage('Open a logcat document first');
+                return;
+            }
+            
+            const mappingPath = await pickMappingFile();
+            if (!mappingPath) {
+                return;
+            }
+            
+            try {
+                const mapping = await loadMapping(mappingPath);
+                const document = await vscode.workspace.openTextDocument({
+                    language: 'logcat',
+                    content: retraceText(editor.document.getText(), mapping)
+                });
+                await vscode.window.showTextDocument(document);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to retrace: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.setRetraceMapping', async () => {
+            const mappingPath = await pickMappingFile();
+            if (!mappingPath) {
+                return;
+            }
+            
+            try {
+                logcatProvider.setRetraceMapping(await loadMapping(mappingPath));
+                vscode.window.showInformationMessage(`Retracing Logcat view with ${mappingPath}`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to load mapping: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.clearRetraceMapping', () => {
+            logcatProvider.setRetraceMapping(undefined);
+            vscode.window.showInformationMessage('Stopped retracing the Logcat view');
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.savePreset', async () => {
+            const name = await vscode.window.showInputBox({
+                prompt: 'Name of the filter preset',
+                placeHolder: 'e.g. Networking',
+                validateInput: value => value.trim() ? undefined : 'Enter a name'
+            });
+            if (!name) {
+                return;
+            }
+            
+            const location = await vscode.window.showQuickPick([
+                { label: 'This workspace', description: 'Only for you', shared: false },
+                { label: 'Shared', description: 'In .vscode/settings.json, for the whole team', shared: true }
+            ], { placeHolder: 'Where to save the preset' });
+            if (!location) {
+                return;
+            }
+            
+            const presetName = name.trim();
+            await presetStore.savePreset(presetName, logcatProvider.getFilters(), location.shared);
+            logcatProvider.showPreset(presetName);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.renamePreset', async () => {
+            const preset = await pickPreset(presetStore, 'Preset to rename');
+            if (!preset) {
+                return;
+            }
+            
+            const newName = await vscode.window.showInputBox({
+                prompt: `New name for "${preset.name}"`,
+                value: preset.name,
+                validateInput: value => {
+                    const name = value.trim();
+                    if (!name) {
+                        return 'Enter a name';
+                    }
+                    return name !== preset.name && presetStore.getPreset(name) ? `A preset named "${name}" already exists` : undefined;
+                }
+            });
+            if (!newName || newName.trim() === preset.name) {
+                return;
+            }
+            
+            await presetStore.renamePreset(preset.name, newName.trim());
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.deletePreset', async () => {
+            const preset = await pickPreset(presetStore, 'Preset to delete');
+            if (!preset) {
+                return;
+            }
+            
+            const answer = await vscode.window.showWarningMessage(
+                `Delete the filter preset "${preset.name}"?`,
+                { modal: true },
+                'Delete'
+            );
+            if (answer === 'Delete') {
+                await presetStore.deletePreset(preset.name);
+            }
+        })
+    );
+
+    const symbolizeAndShow = async (text: string) => {
+        const libraries = await findUnstrippedLibraries();
+        if (libraries.length === 0) {
+            vscode.window.showWarningMessage('No unstripped native libraries found. Build the app with native code first.');
+            return;
+        }
+        
+        try {
+            const result = await symbolizeText(text, libraries);
+            if (result.symbolized === 0) {
+                vscode.window.showWarningMessage('No native frames matched the local libraries');
+                return;
+            }
+            
+            const document = await vscode.workspace.openTextDocument({
+                language: 'logcat',
+                content: result.text
+            });
+            await vscode.window.showTextDocument(document);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to symbolize: ${error}. Check the android.symbolizerPath setting.`);
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.symbolizeDocument', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showWarningMessage('Open a logcat document first');
+                return;
+            }
+            
+            await symbolizeAndShow(editor.document.getText());
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('android.symbolizeCrash', async (item: { incident: CrashIncident }) => {
+            await symbolizeAndShow(entriesToText(item.incident.entries));
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('android.openBugreport', async () => {
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'Bugreport': ['zip'] },
+                openLabel: 'Open Bugreport'
+            });
+            if (!uris || uris.length === 0) {
+                return;
+            }
+            
+            try {
+                const bugreport = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Reading bugreport...'
+                }, () => readBugreportZip(uris[0].fsPath));
+                
+                if (bugreport.buffers.size === 0) {
+                    vscode.window.showWarningMessage('The bugreport contains no logcat output');
+                }
+                
+                crashTreeProvider.clear();
+                bugreportTreeProvider.setBugreport(bugreport);
+                await vscode.commands.executeCommand('setContext', 'android.bugreportLoaded', true);
+                await vscode.commands.executeCommand(`${LogcatViewProvider.viewType}.focus`);
+                logcatProvider.loadSession(bugreport.fileName, bugreport.buffers);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to open bugreport: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('android.closeBugreport', async () => {
+            bugreportTreeProvider.setBugreport(undefined);
+            await vscode.commands.executeCommand('setContext', 'android.bugreportLoaded', false);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('android.openBugreportSection', async (language: string, content: string) => {
+            const document = await vscode.workspace.openTextDocument({ language, content });
+            await vscode.window.showTextDocument(document, { preview: true });
+        })
+    );
+
+    // Priority colors and highlight rules in logcat editors
+    context.subscriptions.push(registerColorizer(highlightStore));
+
+    // Bookmarks in logcat editors and the Logcat view, listed in the Bookmarks view
+    context.subscriptions.push(
+        registerEditorBookmarks(bookmarkStore),
+        vscode.window.registerTreeDataProvider('logcatBookmarks', new BookmarkTreeProvider(bookmarkStore, tabId => logcatProvider.getTabLabel(tabId)))
+    );
+
+    const getLogcatEditor = () => {
+        const editor = vscode.window.activeTextEditor;
+        if (editor?.document.languageId !== 'logcat') {
+            vscode.window.showWarningMessage('Open a logcat document first');
+            return undefined;
+        }
+        return editor;
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.toggleBookmark', () => {
+            const editor = getLogcatEditor();
+            if (!editor) {
+                return;
+            }
+            const lines = new Set(editor.selections.map(selection => selection.active.line));
+            for (const line of lines) {
+                bookmarkStore.toggle(editor.document.uri.toString(), line, editor.document.lineAt(line).text);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.editBookmarkNote', async (item?: BookmarkTreeItem) => {
+            let source: string;
+            let line: number;
+            let text: string;
+            if (item) {
+                source = item.source;
+                line = item.bookmark.line;
+                text = item.bookmark.text;
+            } else {
+                const editor = getLogcatEditor();
+                if (!editor) {
+                    return;
+                }
+                source = editor.document.uri.toString();
+                line = editor.selection.active.line;
+                text = editor.document.lineAt(line).text;
+            }
+
+            const note = await vscode.window.showInputBox({
+                prompt: 'Note for the bookmarked line',
+                placeHolder: 'e.g. button tapped here',
+                value: bookmarkStore.find(source, line)?.note ?? ''
+            });
+            if (note !== undefined) {
+                bookmarkStore.setNote(source, line, text, note.trim());
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.removeBookmark', (item: BookmarkTreeItem) => {
+            bookmarkStore.remove(item.source, item.bookmark.line);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.clearBookmarks', () => {
+            bookmarkStore.getSources().forEach(source => bookmarkStore.set(source, []));
+        })
+    );
+
+    const revealDocumentLine = async (source: string, line: number) => {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(source));
+        const editor = await vscode.window.showTextDocument(document);
+        const position = new vscode.Position(Math.min(line, document.lineCount - 1), 0);
+        editor.selection = new vscode.Selection(position, position);
+        editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.revealBookmark', async (item: BookmarkTreeItem) => {
+            const tabId = getViewTab(item.source);
+            if (tabId === undefined) {
+                await revealDocumentLine(item.source, item.bookmark.line);
+            } else if (!logcatProvider.revealBookmark(tabId, item.bookmark.line)) {
+                vscode.window.showInformationMessage('The bookmarked line is hidden by the Logcat view\'s filters');
+            }
+        })
+    );
+
+    const revealNextDocumentBookmark = async (forward: boolean) => {
+        const editor = getLogcatEditor();
+        if (!editor) {
+            return;
+        }
+        const source = editor.document.uri.toString();
+        const next = findNextBookmark(bookmarkStore.get(source), editor.selection.active.line, forward);
+        if (next) {
+            await revealDocumentLine(source, next.line);
+        } else {
+            vscode.window.showInformationMessage('No bookmarks in this document');
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.nextBookmark', () => revealNextDocumentBookmark(true)),
+        vscode.commands.registerCommand('logcat-viewer.previousBookmark', () => revealNextDocumentBookmark(false)),
+        vscode.commands.registerCommand('logcat-viewer.nextViewBookmark', () => logcatProvider.revealNextBookmark(true)),
+        vscode.commands.registerCommand('logcat-viewer.previousViewBookmark', () => logcatProvider.revealNextBookmark(false))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('logcat-viewer.saveSession', () => logcatProvider.saveSession())
+    );
+
     // Auto-refresh devices on activation
     deviceTreeProvider.refresh();
 }
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { LogcatFilters, toFilters } from './logcatProtocol';
+
+export interface FilterPreset extends LogcatFilters {
+    name: string;
+    /** Stored in .vscode/settings.json rather than in workspace state */
+    shared?: boolean;
+}
+
+const PRESETS_KEY = 'logcat-viewer.filterPresets';
+const CURRENT_FILTERS_KEY = 'logcat-viewer.currentFilters';
+const PRESETS_SETTING = 'filterPresets';
+
+/**
+ * Named filter presets, kept in workspace state or shared through the
+ * logcat-viewer.filterPresets workspace setting
+ */
+export class FilterPresetStore {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    /** Fires when presets are added, renamed or deleted */
+    readonly onDidChange = this._onDidChange.event;
+
+    private _configListener: vscode.Disposable;
+
+    constructor(private readonly state: vscode.Memento) {
+        this._configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`logcat-viewer.${PRESETS_SETTING}`)) {
+                this._onDidChange.fire();
+            }
+        });
+    }
+
+    dispose(): void {
+        this._configListener.dispose();
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * All presets; a shared preset wins over a local one with the same name
+     */
+    getPresets(): FilterPreset[] {
+        const shared = this.getSharedPresets().map(preset => ({ ...preset, shared: true }));
+        const local = this.state.get<FilterPreset[]>(PRESETS_KEY, [])
+            .filter(preset => !shared.some(other => other.name === preset.name));
+        return [...shared, ...local].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    getPreset(name: string): FilterPreset | undefined {
+        return this.getPresets().find(preset => preset.name === name);
+    }
+
+    async savePreset(name: string, filters: LogcatFilters, shared: boolean): Promise<void> {
+        const preset: FilterPreset = { name, ...toFilters(filters) };
+        // A name lives in one place only
+        await this.removeEverywhere(name);
+
+        if (shared) {
+            await this.updateSharedPresets([...this.getSharedPresets(), preset]);
+        } else {
+            await this.state.update(PRESETS_KEY, [...this.state.get<FilterPreset[]>(PRESETS_KEY, []), preset]);
+        }
+        this._onDidChange.fire();
+    }
+
+    async renamePreset(name: string, newName: string): Promise<void> {
+        const preset = this.getPreset(name);
+        if (!preset) {
+            return;
+        }
+        await this.removeEverywhere(name);
+        await this.savePreset(newName, preset, !!preset.shared);
+    }
+
+    async deletePreset(name: string): Promise<void> {
+        await this.removeEverywhere(name);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * The filters last used in the Logcat view
+     */
+    getCurrentFilters(): LogcatFilters | undefined {
+        return this.state.get<LogcatFilters>(CURRENT_FILTERS_KEY);
+    }
+
+    async setCurrentFilters(filters: LogcatFilters): Promise<void> {
+        await this.state.update(CURRENT_FILTERS_KEY, toFilters(filters));
+    }
+
+    private getSharedPresets(): FilterPreset[] {
+        const config = vscode.workspace.getConfiguration('logcat-viewer');
+        return config.get<FilterPreset[]>(PRESETS_SETTING, [])
+            .filter(preset => preset && typeof preset.name === 'string')
+            .map(preset => ({ name: preset.name, ...toFilters(preset) }));
+    }
+
+    private async updateSharedPresets(presets: FilterPreset[]): Promise<void> {
+        const config = vscode.workspace.getConfiguration('logcat-viewer');
+        await config.update(
+            PRESETS_SETTING,
+            presets.length > 0 ? presets : undefined,
+            vscode.ConfigurationTarget.Workspace
+        );
+    }
+
+    private async removeEverywhere(name: string): Promise<void> {
+        const local = this.state.get<FilterPreset[]>(PRESETS_KEY, []);
+        if (local.some(preset => preset.name === name)) {
+            await this.state.update(PRESETS_KEY, local.filter(preset => preset.name !== name));
+        }
+
+        const shared = this.getSharedPresets();
+        if (shared.some(preset => preset.name === name)) {
+            await this.updateSharedPresets(shared.filter(preset => preset.name !== name));
+        }
+    }
+}
+
+/**
+ * Ask for a preset; returns undefined when there are none or the pick is cancelled
+ */
+export async function pickPreset(store: FilterPresetStore, placeHolder: string): Promise<FilterPreset | undefined> {
+    const presets = store.getPresets();
+    if (presets.length === 0) {
+        vscode.window.showInformationMessage('No Logcat filter presets saved yet');
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        presets.map(preset => ({
+            label: preset.name,
+            description: preset.shared ? 'shared in .vscode/settings.json' : 'this workspace',
+            preset
+        })),
+        { placeHolder }
+    );
+    return picked?.preset;
+}
@@ -0,0 +1,171 @@
+/**
+ * Highlight Rules
+ * Styles for log lines that match a regex or a query, from the
+ * logcat-viewer.highlightRules setting. They apply in the Logcat view and
+ * in logcat editors. Colors are theme color ids, such as the contributed
+ * logcat.highlightBackground, or CSS colors.
+ */
+
+import * as vscode from 'vscode';
+import { QueryContext, QueryNode, QueryableEntry, matchesQuery, parseQuery } from './logQuery';
+import type { ViewHighlightRule } from './logcatProtocol';
+
+export interface HighlightRule {
+    /** Regular expression tested against the whole line */
+    pattern?: string;
+    /** Query the line must match, e.g. tag:OkHttp level>=W */
+    query?: string;
+    foreground?: string;
+    background?: string;
+    bold?: boolean;
+    /** Short text shown at the start of the line */
+    badge?: string;
+}
+
+interface CompiledRule {
+    rule: HighlightRule;
+    pattern?: RegExp;
+    query?: QueryNode;
+}
+
+const RULES_SETTING = 'highlightRules';
+
+// Background of rules that set no colors
+const DEFAULT_BACKGROUND = 'logcat.highlightBackground';
+
+// Rules have no followed packages, so package: terms match no line
+const RULE_CONTEXT: QueryContext = { packages: {} };
+
+const THEME_COLOR_PATTERN = /^[a-zA-Z][\w-]*(\.[\w-]+)+$/;
+const CSS_COLOR_PATTERN = /^[#\w\s(),.%-]+$/;
+
+/**
+ * The highlight rules of the settings, compiled; invalid rules are reported
+ * and left out
+ */
+export class HighlightRuleStore {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    /** Fires when the rules setting changes */
+    readonly onDidChange = this._onDidChange.event;
+
+    private _configListener: vscode.Disposable;
+    private _rules: CompiledRule[];
+
+    constructor() {
+        this._rules = loadRules();
+        this._configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`logcat-viewer.${RULES_SETTING}`)) {
+                this._rules = loadRules();
+                this._onDidChange.fire();
+            }
+        });
+    }
+
+    dispose(): void {
+        this._configListener.dispose();
+        this._onDidChange.dispose();
+    }
+
+    get rules(): HighlightRule[] {
+        return this._rules.map(compiled => compiled.rule);
+    }
+
+    /**
+     * Index of the first rule a line matches, or -1
+     */
+    findRule(entry: QueryableEntry): number {
+        return this._rules.findIndex(compiled =>
+            (!compiled.pattern || compiled.pattern.test(entry.raw)) &&
+            (!compiled.query || matchesQuery(compiled.query, entry, RULE_CONTEXT)));
+    }
+}
+
+function loadRules(): CompiledRule[] {
+    const config = vscode.workspace.getConfiguration('logcat-viewer');
+    const value = config.get<unknown>(RULES_SETTING, []);
+    const rules: CompiledRule[] = [];
+    const errors: string[] = [];
+
+    (Array.isArray(value) ? value : []).forEach((item, index) => {
+        const rule = toHighlightRule(item);
+        if (!rule) {
+            errors.push(`rule ${index + 1} needs a pattern or a query`);
+            return;
+        }
+        try {
+            rules.push({
+                rule,
+                pattern: rule.pattern ? new RegExp(rule.pattern) : undefined,
+                query: rule.query ? parseQuery(rule.query) : undefined
+            });
+        } catch (error) {
+            errors.push(`rule ${index + 1}: ${(error as Error).message}`);
+        }
+    });
+
+    if (errors.length > 0) {
+        vscode.window.showErrorMessage(`Invalid highlight rules: ${errors.join('; ')}`);
+    }
+    return rules;
+}
+
+/**
+ * Check a rule of the settings; a rule that sets no colors gets the
+ * default highlight background
+ */
+function toHighlightRule(value: unknown): HighlightRule | undefined {
+    const item = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+    const text = (field: string) => typeof item[field] === 'string' && item[field] !== '' ? item[field] as string : undefined;
+
+    const rule: HighlightRule = {
+        pattern: text('pattern'),
+        query: text('query'),
+        foreground: text('foreground'),
+        background: text('background'),
+        bold: item.bold === true,
+        badge: text('badge')
+    };
+    if (!rule.pattern && !rule.query) {
+        return undefined;
+    }
+    if (!rule.foreground && !rule.background) {
+        rule.background = DEFAULT_BACKGROUND;
+    }
+    return rule;
+}
+
+/**
+ * Color for editor decorations: a theme color, or a CSS color as is
+ */
+export function toDecorationColor(color: string | undefined): string | vscode.ThemeColor | undefined {
+    if (!color) {
+        return undefined;
+    }
+    return THEME_COLOR_PATTERN.test(color) ? new vscode.ThemeColor(color) : color;
+}
+
+/**
+ * Color for webview CSS: the variable of a theme color, or a CSS color.
+ * Anything that could end the declaration is dropped.
+ */
+export function toCssColor(color: string | undefined): string | undefined {
+    if (!color) {
+        return undefined;
+    }
+    if (THEME_COLOR_PATTERN.test(color)) {
+        return `var(--vscode-${color.replace(/\./g, '-')})`;
+    }
+    return CSS_COLOR_PATTERN.test(color) ? color : undefined;
+}
+
+/**
+ * Convert a rule into the styles the Logcat view applies
+ */
+export function toViewHighlightRule(rule: HighlightRule): ViewHighlightRule {
+    return {
+        foreground: toCssColor(rule.foreground),
+        background: toCssColor(rule.background),
+        bold: rule.bold === true,
+        badge: rule.badge
+    };
+}
@@ -0,0 +1,260 @@
+/**
+ * Log Buffer
+ * Session history of the Logcat view. The newest lines stay in memory;
+ * older ones are appended to a spill file with an offset per line, so any
+ * line can be read back by its id. Lines stay in memory until written.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ViewLogEntry } from './logcatProtocol';
+
+export interface BufferedEntry extends ViewLogEntry {
+    /** Position in the session, counting from 1 */
+    id: number;
+    /** Id of the collapsed row this line was merged into */
+    mergedInto?: number;
+}
+
+const SPILL_PREFIX = 'logcat-session-';
+
+// Spill files left behind by a crashed window are removed after this long
+const STALE_SPILL_AGE = 24 * 60 * 60 * 1000;
+// Spilled lines are read and decoded this many at a time
+const PAGE_SIZE = 1000;
+// Decoded pages kept, the least recently read dropped first
+const MAX_CACHED_PAGES = 16;
+
+export class LogBuffer {
+    private recent: BufferedEntry[] = [];
+    private nextIdValue = 1;
+
+    private spillPath?: string;
+    private spillFile?: fs.promises.FileHandle;
+    private spillSize = 0;
+    /** Byte offsets of the spilled lines, starting with id 1 */
+    private offsets: number[] = [];
+    /** Write to the spill file in progress */
+    private writing?: Promise<void>;
+    /** Set when writing failed; all lines then stay in memory */
+    private spillFailed = false;
+    /** Changes when the spill file is closed, so writes in progress are dropped */
+    private spillEpoch = 0;
+    /** Decoded pages of spilled lines by page number, in order of use */
+    private pages = new Map<number, BufferedEntry[]>();
+
+    constructor(
+        private capacity: number,
+        private readonly storagePath: string,
+        private readonly onError: (error: Error) => void
+    ) {}
+
+    /** Id the next line will get */
+    get nextId(): number {
+        return this.nextIdValue;
+    }
+
+    get size(): number {
+        return this.nextIdValue - 1;
+    }
+
+    setCapacity(capacity: number): void {
+        this.capacity = capacity;
+        this.spill();
+    }
+
+    append(entry: ViewLogEntry, mergedInto?: number): BufferedEntry {
+        const buffered: BufferedEntry = { ...entry, id: this.nextIdValue++ };
+        if (mergedInto !== undefined) {
+            buffered.mergedInto = mergedInto;
+        }
+        this.recent.push(buffered);
+        this.spill();
+        return buffered;
+    }
+
+    get(id: number): BufferedEntry | undefined {
+        return this.getRange(id, 1)[0];
+    }
+
+    /**
+     * Read up to `count` consecutive lines starting at `fromId`
+     */
+    getRange(fromId: number, count: number): BufferedEntry[] {
+        const start = Math.max(fromId, 1);
+        const end = Math.min(fromId + count, this.nextIdValue);
+        if (start >= end) {
+            return [];
+        }
+
+        const firstRecent = this.offsets.length + 1;
+        const result = start < firstRecent ? this.readSpilled(start, Math.min(end, firstRecent)) : [];
+        if (end > firstRecent) {
+            result.push(...this.recent.slice(Math.max(start - firstRecent, 0), end - firstRecent));
+        }
+        return result;
+    }
+
+    clear(): void {
+        this.recent = [];
+        this.nextIdValue = 1;
+        this.closeSpill();
+    }
+
+    dispose(): void {
+        this.closeSpill();
+    }
+
+    /**
+     * Write the oldest in-memory lines to the spill file once there are
+     * more than `capacity`, a tenth of the capacity at a time. A failed
+     * write is reported once, and spilling stops.
+     */
+    private spill(): void {
+        if (this.writing || this.spillFailed || this.recent.length <= this.capacity) {
+            return;
+        }
+
+        const count = this.recent.length - this.capacity + Math.ceil(this.capacity / 10);
+        const writing: Promise<void> = this.writeSpill(this.recent.slice(0, count)).then(
+            () => {
+                if (this.writing === writing) {
+                    this.writing = undefined;
+                    this.spill();
+                }
+            },
+            error => {
+                if (this.writing === writing) {
+                    this.writing = undefined;
+                    this.spillFailed = true;
+                    this.onError(error);
+                }
+            });
+        this.writing = writing;
+    }
+
+    /**
+     * Append lines to the spill file, then drop them from memory
+     */
+    private async writeSpill(entries: BufferedEntry[]): Promise<void> {
+        const epoch = this.spillEpoch;
+        if (!this.spillFile) {
+            await fs.promises.mkdir(this.storagePath, { recursive: true });
+            await removeStaleSpillFiles(this.storagePath);
+            const spillPath = path.join(this.storagePath, `${SPILL_PREFIX}${process.pid}-${Date.now()}.jsonl`);
+            const file = await fs.promises.open(spillPath, 'w+');
+            if (epoch !== this.spillEpoch) {
+                await file.close();
+                await fs.promises.rm(spillPath, { force: true });
+                return;
+            }
+            this.spillPath = spillPath;
+            this.spillFile = file;
+        }
+
+        const offsets: number[] = [];
+        let size = this.spillSize;
+        const lines = entries.map(entry => {
+            const line = JSON.stringify(entry) + '\n';
+            offsets.push(size);
+            size += Buffer.byteLength(line);
+            return line;
+        });
+        await this.spillFile.write(lines.join(''), this.spillSize);
+        if (epoch !== this.spillEpoch) {
+            return;
+        }
+
+        offsets.forEach(offset => this.offsets.push(offset));
+        this.spillSize = size;
+        this.recent.splice(0, entries.length);
+    }
+
+    private readSpilled(startId: number, endId: number): BufferedEntry[] {
+        const result: BufferedEntry[] = [];
+        for (let id = startId; id < endId;) {
+            const page = Math.floor((id - 1) / PAGE_SIZE);
+            const firstId = page * PAGE_SIZE + 1;
+            const entries = this.readPage(page);
+            const end = Math.min(endId, firstId + entries.length);
+            if (end <= id) {
+                break;
+            }
+            for (let index = id - firstId; index < end - firstId; index++) {
+                result.push(entries[index]);
+            }
+            id = end;
+        }
+        return result;
+    }
+
+    /**
+     * Read a page of spilled lines; only complete pages are cached
+     */
+    private readPage(page: number): BufferedEntry[] {
+        const cached = this.pages.get(page);
+        if (cached) {
+            this.pages.delete(page);
+            this.pages.set(page, cached);
+            return cached;
+        }
+        if (!this.spillFile) {
+            return [];
+        }
+
+        const startId = page * PAGE_SIZE + 1;
+        const endId = Math.min(startId + PAGE_SIZE, this.offsets.length + 1);
+        const from = this.offsets[startId - 1];
+        const to = endId - 1 < this.offsets.length ? this.offsets[endId - 1] : this.spillSize;
+        const data = Buffer.alloc(to - from);
+        fs.readSync(this.spillFile.fd, data, 0, data.length, from);
+
+        const entries = data.toString('utf8').split('\n')
+            .filter(line => line.length > 0)
+            .map(line => JSON.parse(line) as BufferedEntry);
+        if (entries.length === PAGE_SIZE) {
+            this.pages.set(page, entries);
+            if (this.pages.size > MAX_CACHED_PAGES) {
+                this.pages.delete(this.pages.keys().next().value!);
+            }
+        }
+        return entries;
+    }
+
+    private closeSpill(): void {
+        const file = this.spillFile;
+        const spillPath = this.spillPath;
+        if (file) {
+            // Closed once a write in progress is done
+            (this.writing ?? Promise.resolve())
+                .then(() => file.close())
+                .then(() => fs.promises.rm(spillPath!, { force: true }))
+                .catch(() => undefined);
+        }
+        this.spillEpoch++;
+        this.writing = undefined;
+        this.spillFailed = false;
+        this.spillFile = undefined;
+        this.spillPath = undefined;
+        this.spillSize = 0;
+        this.offsets = [];
+        this.pages.clear();
+    }
+}
+
+async function removeStaleSpillFiles(storagePath: string): Promise<void> {
+    const now = Date.now();
+    for (const name of await fs.promises.readdir(storagePath)) {
+        if (!name.startsWith(SPILL_PREFIX)) {
+            continue;
+        }
+        try {
+            const file = path.join(storagePath, name);
+            if (now - (await fs.promises.stat(file)).mtimeMs > STALE_SPILL_AGE) {
+                await fs.promises.rm(file, { force: true });
+            }
+        } catch (error) {
+            // In use by another window or already gone
+        }
+    }
+}
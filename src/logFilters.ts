@@ -0,0 +1,159 @@
+/**
+ * Log Filters
+ * The level, tag and search filters of the Logcat view, combined with
+ * the followed package and the query into one test per line
+ */
+
+import { QueryContext, QueryNode, QueryableEntry, matchesQuery } from './logQuery';
+
+/**
+ * One comma-separated term of a tag or search filter
+ */
+export interface FilterTerm {
+    text?: string;
+    regex?: RegExp;
+    negated: boolean;
+}
+
+/**
+ * Everything that decides whether the Logcat view shows a line
+ */
+export interface LineFilter {
+    /** Minimum level: V, D, I, W or E */
+    level: string;
+    tag: string;
+    search: string;
+    /** Log buffer of a recorded session, empty for all */
+    buffer: string;
+    /** PIDs of the followed package, undefined when not following one */
+    pids?: number[];
+    query?: QueryNode;
+    /** Current PIDs of the packages named in the query */
+    packages: Record<string, number[]>;
+}
+
+export const PRIORITY_LEVELS: Record<string, number> = { V: 0, D: 1, I: 2, W: 3, E: 4, F: 5 };
+
+/**
+ * Parse a filter string into terms with support for:
+ * - Comma-separated values (OR logic): "term1,term2"
+ * - Negation with prefix: "-term"
+ * - Regex patterns: "/pattern/"
+ */
+export function parseFilterTerms(filter: string): FilterTerm[] {
+    if (!filter.trim()) {
+        return [];
+    }
+
+    const terms: FilterTerm[] = [];
+    for (let term of filter.split(',')) {
+        term = term.trim();
+        const negated = term.startsWith('-');
+        if (negated) {
+            term = term.slice(1);
+        }
+
+        // Don't treat empty string after removing "-" as valid
+        if (!term) {
+            continue;
+        }
+
+        if (term.startsWith('/') && term.endsWith('/') && term.length > 2) {
+            try {
+                terms.push({ regex: new RegExp(term.slice(1, -1), 'i'), negated });
+                continue;
+            } catch (e) {
+                // Invalid regex, treat as plain text
+            }
+        }
+        terms.push({ text: term.toLowerCase(), negated });
+    }
+    return terms;
+}
+
+/**
+ * Test if a value matches the filter terms: no negated term may match,
+ * and one of the other terms must if there are any
+ */
+export function matchesFilter(value: string, terms: FilterTerm[]): boolean {
+    if (terms.length === 0) {
+        return true;
+    }
+
+    const valueLower = value.toLowerCase();
+    const matches = (term: FilterTerm) => term.regex ? term.regex.test(value) : valueLower.includes(term.text!);
+
+    if (terms.some(term => term.negated && matches(term))) {
+        return false;
+    }
+
+    const positive = terms.filter(term => !term.negated);
+    return positive.length === 0 || positive.some(matches);
+}
+
+/**
+ * Get the ranges of a value that its terms other than negated ones match,
+ * sorted and merged, for highlighting
+ */
+export function getTermMatches(value: string, terms: FilterTerm[]): [number, number][] {
+    const ranges: [number, number][] = [];
+    const valueLower = value.toLowerCase();
+    for (const term of terms) {
+        if (term.negated) {
+            continue;
+        }
+        if (term.regex) {
+            for (const match of value.matchAll(new RegExp(term.regex.source, 'gi'))) {
+                if (match[0].length > 0) {
+                    ranges.push([match.index!, match.index! + match[0].length]);
+                }
+            }
+            continue;
+        }
+        const text = term.text!;
+        for (let index = valueLower.indexOf(text); index >= 0; index = valueLower.indexOf(text, index + text.length)) {
+            ranges.push([index, index + text.length]);
+        }
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push(range);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Build a test for a filter. The context is read on every call, so
+ * age: terms follow its `now`.
+ */
+export function createLineFilter(filter: LineFilter, context: QueryContext): (entry: QueryableEntry) => boolean {
+    const minLevel = PRIORITY_LEVELS[filter.level] ?? 0;
+    const tagTerms = parseFilterTerms(filter.tag);
+    const searchTerms = parseFilterTerms(filter.search);
+    const pids = filter.pids && new Set(filter.pids);
+    const query = filter.query;
+
+    return entry => {
+        if (pids && (entry.pid === undefined || !pids.has(entry.pid))) {
+            return false;
+        }
+        if (query && !matchesQuery(query, entry, context)) {
+            return false;
+        }
+        if (filter.buffer && entry.buffer !== filter.buffer) {
+            return false;
+        }
+        // Unparsed lines count as verbose
+        if (PRIORITY_LEVELS[entry.priority || 'V'] < minLevel) {
+            return false;
+        }
+        return matchesFilter(entry.tag || '', tagTerms) && matchesFilter(entry.raw, searchTerms);
+    };
+}
@@ -0,0 +1,548 @@
+/**
+ * Log Query
+ * Parser and evaluator for filter queries such as
+ * `package:com.foo level>=W tag:OkHttp -tag:chatty message~/timeout \d+/ age:5m`
+ */
+
+export type QueryField = 'tag' | 'message' | 'line' | 'uid' | 'buffer' | 'pid' | 'tid' | 'level' | 'package' | 'age' | 'is';
+
+export type QueryOperator = ':' | '=' | '!=' | '~' | '!~' | '>' | '>=' | '<' | '<=';
+
+export interface QueryTerm {
+    type: 'term';
+    field: QueryField;
+    operator: QueryOperator;
+    /** Lowercased text, regex source, package name, number, level (0-6) or duration in ms */
+    value: string | number;
+    /** Flags of a regex value */
+    flags?: string;
+    /** Regex compiled on first use */
+    compiled?: RegExp;
+}
+
+export type QueryNode =
+    | QueryTerm
+    | { type: 'and'; children: QueryNode[] }
+    | { type: 'or'; children: QueryNode[] }
+    | { type: 'not'; child: QueryNode };
+
+/** The entry fields a query looks at */
+export interface QueryableEntry {
+    raw: string;
+    pid?: number;
+    tid?: number;
+    uid?: string;
+    priority?: string;
+    tag?: string;
+    message?: string;
+    buffer?: string;
+    crashId?: number;
+    /** Entry time in ms, see getEntryTime */
+    time?: number;
+}
+
+export interface QueryContext {
+    /** Current PIDs of the packages named in the query */
+    packages: Record<string, number[]>;
+    /** Reference time for age: terms, normally the newest entry's time */
+    now?: number;
+}
+
+/**
+ * Error in a query, with the 1-based column it was found at
+ */
+export class QueryError extends Error {
+    constructor(message: string, public readonly column: number) {
+        super(`${message} (column ${column})`);
+        this.name = 'QueryError';
+    }
+}
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+    tag: 'tag',
+    message: 'message',
+    msg: 'message',
+    line: 'line',
+    text: 'line',
+    uid: 'uid',
+    buffer: 'buffer',
+    pid: 'pid',
+    tid: 'tid',
+    level: 'level',
+    priority: 'level',
+    package: 'package',
+    pkg: 'package',
+    age: 'age',
+    is: 'is'
+};
+
+const TEXT_OPERATORS: QueryOperator[] = [':', '=', '!=', '~', '!~'];
+const NUMBER_OPERATORS: QueryOperator[] = [':', '=', '!=', '>', '>=', '<', '<='];
+
+const LEVEL_NAMES: Record<string, number> = {
+    v: 0, verbose: 0,
+    d: 1, debug: 1,
+    i: 2, info: 2,
+    w: 3, warn: 3, warning: 3,
+    e: 4, error: 4,
+    f: 5, a: 5, fatal: 5, assert: 5
+};
+
+const DURATION_UNITS: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000
+};
+
+// "tag:", "level>=", "message!~" at the start of a term
+const FIELD_PATTERN = /^([a-zA-Z]+)(!=|!~|>=|<=|[:=~<>])/;
+
+interface QueryValue {
+    text: string;
+    isRegex: boolean;
+    flags: string;
+    column: number;
+}
+
+/**
+ * Recursive descent parser:
+ *
+ *   or      := and (("OR" | "|" | "||") and)*
+ *   and     := unary (("AND" | "&" | "&&")? unary)*
+ *   unary   := ("NOT" | "!" | "-") unary | primary
+ *   primary := "(" or ")" | field operator value | value
+ *   value   := word | "quoted text" | /regex/flags
+ */
+class QueryParser {
+    private pos = 0;
+
+    constructor(private readonly text: string) {}
+
+    parse(): QueryNode | undefined {
+        this.skipSpace();
+        if (this.atEnd()) {
+            return undefined;
+        }
+
+        const node = this.parseOr();
+        this.skipSpace();
+        if (!this.atEnd()) {
+            throw this.error(`Unexpected "${this.text[this.pos]}"`);
+        }
+        return node;
+    }
+
+    private parseOr(): QueryNode {
+        const children = [this.parseAnd()];
+        while (this.acceptOperator('OR', '||', '|')) {
+            children.push(this.parseAnd());
+        }
+        return children.length === 1 ? children[0] : { type: 'or', children };
+    }
+
+    private parseAnd(): QueryNode {
+        const children = [this.parseUnary()];
+        for (;;) {
+            this.skipSpace();
+            if (this.atEnd() || this.text[this.pos] === ')' || this.peekOperator('OR', '||', '|')) {
+                break;
+            }
+            // AND is implied between terms
+            this.acceptOperator('AND', '&&', '&');
+            children.push(this.parseUnary());
+        }
+        return children.length === 1 ? children[0] : { type: 'and', children };
+    }
+
+    private parseUnary(): QueryNode {
+        this.skipSpace();
+        if (this.acceptOperator('NOT', '!', '-')) {
+            return { type: 'not', child: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): QueryNode {
+        this.skipSpace();
+        if (this.atEnd()) {
+            throw this.error('Expected a filter term');
+        }
+
+        const start = this.pos;
+        if (this.text[this.pos] === '(') {
+            this.pos++;
+            const node = this.parseOr();
+            this.skipSpace();
+            if (this.text[this.pos] !== ')') {
+                throw this.error(`Expected ")" to close the "(" at column ${start + 1}`);
+            }
+            this.pos++;
+            return node;
+        }
+        if (this.text[this.pos] === ')') {
+            throw this.error('Unexpected ")"');
+        }
+
+        const fieldMatch = FIELD_PATTERN.exec(this.text.slice(this.pos));
+        const field = fieldMatch ? FIELD_ALIASES[fieldMatch[1].toLowerCase()] : undefined;
+        if (fieldMatch && field) {
+            this.pos += fieldMatch[0].length;
+            const value = this.parseValue(`${fieldMatch[1]}${fieldMatch[2]}`);
+            return createTerm(field, fieldMatch[2] as QueryOperator, value);
+        }
+
+        // Plain text or regex searches the whole line, as do words that only
+        // look like a field, e.g. "NullPointerException:" or "http://"
+        const value = this.parseValue();
+        return createTerm('line', value.isRegex ? '~' : ':', value);
+    }
+
+    private parseValue(after?: string): QueryValue {
+        const column = this.pos + 1;
+        const quote = this.text[this.pos];
+
+        if (quote === '"' || quote === '\'') {
+            let text = '';
+            for (this.pos++; this.pos < this.text.length; this.pos++) {
+                const ch = this.text[this.pos];
+                if (ch === '\\' && this.pos + 1 < this.text.length) {
+                    text += this.text[++this.pos];
+                } else if (ch === quote) {
+                    this.pos++;
+                    return { text, isRegex: false, flags: '', column };
+                } else {
+                    text += ch;
+                }
+            }
+            throw new QueryError(`Unterminated ${quote} quote`, column);
+        }
+
+        if (quote === '/') {
+            let source = '';
+            for (this.pos++; this.pos < this.text.length; this.pos++) {
+                const ch = this.text[this.pos];
+                if (ch === '\\' && this.text[this.pos + 1] === '/') {
+                    source += '/';
+                    this.pos++;
+                } else if (ch === '\\' && this.pos + 1 < this.text.length) {
+                    source += ch + this.text[++this.pos];
+                } else if (ch === '/') {
+                    this.pos++;
+                    const flags = /^[a-z]*/.exec(this.text.slice(this.pos))![0];
+                    this.pos += flags.length;
+                    return { text: source, isRegex: true, flags: validateRegex(source, flags, column), column };
+                } else {
+                    source += ch;
+                }
+            }
+            throw new QueryError('Unterminated regular expression', column);
+        }
+
+        const word = /^[^\s()]*/.exec(this.text.slice(this.pos))![0];
+        if (!word) {
+            throw this.error(after ? `Expected a value after "${after}"` : 'Expected a filter term');
+        }
+        this.pos += word.length;
+        return { text: word, isRegex: false, flags: '', column };
+    }
+
+    /**
+     * Consume one of the given operators. Word operators (AND, OR, NOT)
+     * must be uppercase and stand alone.
+     */
+    private acceptOperator(...operators: string[]): boolean {
+        const operator = this.peekOperator(...operators);
+        if (operator) {
+            this.pos += operator.length;
+        }
+        return operator !== undefined;
+    }
+
+    private peekOperator(...operators: string[]): string | undefined {
+        this.skipSpace();
+        return operators.find(operator => {
+            if (!this.text.startsWith(operator, this.pos)) {
+                return false;
+            }
+            const next = this.text[this.pos + operator.length];
+            if (/^[A-Z]+$/.test(operator)) {
+                return next === undefined || /[\s(]/.test(next);
+            }
+            if (operator === '!' || operator === '-') {
+                // Negation sticks to the term that follows
+                return next !== undefined && !/\s/.test(next);
+            }
+            return true;
+        });
+    }
+
+    private skipSpace(): void {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.text.length;
+    }
+
+    private error(message: string): QueryError {
+        return new QueryError(message, this.pos + 1);
+    }
+}
+
+/**
+ * Check a regex value, rejecting flags that make test() stateful
+ */
+function validateRegex(source: string, flags: string, column: number): string {
+    const invalid = flags.replace(/[imsu]/g, '');
+    if (invalid) {
+        throw new QueryError(`Unsupported regular expression flag "${invalid[0]}"; use i, m, s or u`, column);
+    }
+    try {
+        new RegExp(source, flags);
+    } catch (error) {
+        throw new QueryError((error as Error).message, column);
+    }
+    return flags;
+}
+
+/**
+ * Validate a field's operator and value and normalize them for the evaluator
+ */
+function createTerm(field: QueryField, operator: QueryOperator, value: QueryValue): QueryTerm {
+    const checkOperator = (allowed: QueryOperator[]) => {
+        if (!allowed.includes(operator)) {
+            throw new QueryError(`Operator "${operator}" cannot be used with ${field}; use ${allowed.join(' ')}`, value.column - operator.length);
+        }
+    };
+    const notRegex = () => {
+        if (value.isRegex) {
+            throw new QueryError(`${field} does not take a regular expression`, value.column);
+        }
+    };
+
+    switch (field) {
+        case 'tag':
+        case 'message':
+        case 'line':
+        case 'uid':
+        case 'buffer': {
+            checkOperator(TEXT_OPERATORS);
+            const negated = operator === '!=' || operator === '!~';
+            if (value.isRegex || operator === '~' || operator === '!~') {
+                // A plain value after ~ is a case-insensitive regex
+                const flags = value.isRegex ? value.flags : 'i';
+                return { type: 'term', field, operator: negated ? '!~' : '~', value: value.text, flags: validateRegex(value.text, flags, value.column) };
+            }
+            return { type: 'term', field, operator, value: value.text.toLowerCase() };
+        }
+
+        case 'pid':
+        case 'tid': {
+            checkOperator(NUMBER_OPERATORS);
+            notRegex();
+            if (!/^\d+$/.test(value.text)) {
+                throw new QueryError(`${field} expects a number, got "${value.text}"`, value.column);
+            }
+            return { type: 'term', field, operator: operator === ':' ? '=' : operator, value: parseInt(value.text, 10) };
+        }
+
+        case 'level': {
+            checkOperator(NUMBER_OPERATORS);
+            notRegex();
+            const level = LEVEL_NAMES[value.text.toLowerCase()];
+            if (level === undefined) {
+                throw new QueryError(`Unknown level "${value.text}"; use V, D, I, W, E or F`, value.column);
+            }
+            // level:W means W and above, like the level dropdown
+            return { type: 'term', field, operator: operator === ':' ? '>=' : operator, value: level };
+        }
+
+        case 'age': {
+            checkOperator([':', '<', '<=', '>', '>=']);
+            notRegex();
+            const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/.exec(value.text);
+            if (!match) {
+                throw new QueryError(`Invalid age "${value.text}"; use a duration such as 30s, 5m or 2h`, value.column);
+            }
+            // age:5m means within the last 5 minutes
+            return { type: 'term', field, operator: operator === ':' ? '<=' : operator, value: parseFloat(match[1]) * DURATION_UNITS[match[2]] };
+        }
+
+        case 'package': {
+            checkOperator([':', '=', '!=']);
+            notRegex();
+            return { type: 'term', field, operator: operator === ':' ? '=' : operator, value: value.text };
+        }
+
+        case 'is': {
+            checkOperator([':']);
+            if (value.text.toLowerCase() !== 'crash') {
+                throw new QueryError(`Unknown value "${value.text}" for is; use is:crash`, value.column);
+            }
+            return { type: 'term', field, operator, value: 'crash' };
+        }
+    }
+}
+
+/**
+ * Parse a query. Returns undefined for an empty query and throws a
+ * QueryError describing the first problem otherwise.
+ */
+export function parseQuery(text: string): QueryNode | undefined {
+    return new QueryParser(text).parse();
+}
+
+/**
+ * Get the package names a query refers to
+ */
+export function getQueryPackages(node: QueryNode | undefined): string[] {
+    const packages = new Set<string>();
+    const visit = (current: QueryNode) => {
+        switch (current.type) {
+            case 'and':
+            case 'or':
+                current.children.forEach(visit);
+                break;
+            case 'not':
+                visit(current.child);
+                break;
+            default:
+                if (current.field === 'package') {
+                    packages.add(current.value as string);
+                }
+        }
+    };
+    if (node) {
+        visit(node);
+    }
+    return [...packages];
+}
+
+/**
+ * Check whether lines can only stop matching a query as its reference time
+ * advances, as with age:5m, and never start matching again
+ */
+export function onlyAgesOut(node: QueryNode, negated: boolean = false): boolean {
+    switch (node.type) {
+        case 'and':
+        case 'or':
+            return node.children.every(child => onlyAgesOut(child, negated));
+        case 'not':
+            return onlyAgesOut(node.child, !negated);
+        default:
+            if (node.field !== 'age') {
+                return true;
+            }
+            return (node.operator === '<' || node.operator === '<=') !== negated;
+    }
+}
+
+/**
+ * Check whether a query has a term on the given field
+ */
+export function hasQueryField(node: QueryNode, field: QueryField): boolean {
+    switch (node.type) {
+        case 'and':
+        case 'or':
+            return node.children.some(child => hasQueryField(child, field));
+        case 'not':
+            return hasQueryField(node.child, field);
+        default:
+            return node.field === field;
+    }
+}
+
+/**
+ * Check whether an entry matches a query
+ */
+export function matchesQuery(node: QueryNode, entry: QueryableEntry, context: QueryContext): boolean {
+    switch (node.type) {
+        case 'and':
+            return node.children.every(child => matchesQuery(child, entry, context));
+        case 'or':
+            return node.children.some(child => matchesQuery(child, entry, context));
+        case 'not':
+            return !matchesQuery(node.child, entry, context);
+        default:
+            return matchesTerm(node, entry, context);
+    }
+}
+
+function matchesTerm(term: QueryTerm, entry: QueryableEntry, context: QueryContext): boolean {
+    switch (term.field) {
+        case 'tag':
+            return matchesText(term, entry.tag);
+        case 'message':
+            return matchesText(term, entry.message);
+        case 'line':
+            return matchesText(term, entry.raw);
+        case 'uid':
+            return matchesText(term, entry.uid);
+        case 'buffer':
+            return matchesText(term, entry.buffer);
+        case 'pid':
+            return compareNumber(term, entry.pid);
+        case 'tid':
+            return compareNumber(term, entry.tid);
+        case 'level':
+            return compareNumber(term, getQueryLevel(entry.priority));
+        case 'package': {
+            const pids = context.packages[term.value as string] || [];
+            const inPackage = entry.pid !== undefined && pids.includes(entry.pid);
+            return term.operator === '!=' ? !inPackage : inPackage;
+        }
+        case 'age':
+            if (entry.time === undefined || context.now === undefined) {
+                return false;
+            }
+            return compareNumber(term, context.now - entry.time);
+        case 'is':
+            return entry.crashId !== undefined && entry.crashId !== null;
+    }
+}
+
+function matchesText(term: QueryTerm, text: string | undefined): boolean {
+    const value = text || '';
+    switch (term.operator) {
+        case '~':
+        case '!~': {
+            if (!term.compiled) {
+                term.compiled = new RegExp(term.value as string, term.flags);
+            }
+            return term.compiled.test(value) === (term.operator === '~');
+        }
+        case '=':
+            return value.toLowerCase() === term.value;
+        case '!=':
+            return value.toLowerCase() !== term.value;
+        default:
+            return value.toLowerCase().includes(term.value as string);
+    }
+}
+
+function compareNumber(term: QueryTerm, actual: number | undefined): boolean {
+    if (actual === undefined) {
+        return term.operator === '!=';
+    }
+    const expected = term.value as number;
+    switch (term.operator) {
+        case '!=': return actual !== expected;
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        default: return actual === expected;
+    }
+}
+
+function getQueryLevel(priority: string | undefined): number | undefined {
+    if (!priority) {
+        return undefined;
+    }
+    const level = priority === 'A' ? 5 : 'VDIWEFS'.indexOf(priority);
+    return level >= 0 ? level : undefined;
+}
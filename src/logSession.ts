@@ -0,0 +1,884 @@
+/**
+ * Logcat Session
+ * The lines of the Logcat view and the rows they show as: the lines that
+ * pass the filters, crash incidents collapsed into a header and repeated
+ * lines folded into one row, optionally sorted on a column, and the
+ * lines a find matches. Filters are applied in slices, so the extension
+ * host stays responsive with millions of lines.
+ */
+
+import { BufferedEntry, LogBuffer } from './logBuffer';
+import { FilterTerm, LineFilter, PRIORITY_LEVELS, createLineFilter, matchesFilter } from './logFilters';
+import { QueryContext, hasQueryField, onlyAgesOut } from './logQuery';
+import { getMessageTemplate } from './logTemplates';
+import { DEFAULT_FILTERS, SortOrder, ViewLogEntry, ViewRow } from './logcatProtocol';
+import { SortableEntry, compareEntries } from './logcatSorter';
+
+/** Rows of plain lines are just the line id */
+type Row =
+    | number
+    | { kind: 'header'; id: number; crashId: number }
+    | { kind: 'repeat'; id: number; repeatId: number }
+    | { kind: 'gap'; id: number };
+
+interface CrashState {
+    summary: string;
+    expanded: boolean;
+    /** Whether the rows have a header for the incident yet */
+    shown: boolean;
+}
+
+/**
+ * A line and its repeats, which are the lines right after it, tagged with
+ * its id as `mergedInto` in the buffer
+ */
+interface RepeatState {
+    count: number;
+    lastTimestamp?: string;
+    expanded: boolean;
+}
+
+interface FilterPass {
+    matches: (entry: BufferedEntry) => boolean;
+    /** Visible lines to test again when the filters only got narrower */
+    ids?: number[];
+    index: number;
+    /** Next line to test once `ids` is done */
+    nextId: number;
+    result: number[];
+    /** Sort keys of the result, when sorted */
+    keys: SortableEntry[];
+    /** Lines of the result the find matches */
+    hits: Set<number>;
+    /** Held lines that pass, counted after the others */
+    held: number;
+}
+
+/**
+ * Lines to find among the shown ones. With `context`, only the hits and
+ * that many lines before and after each are shown, like grep -C.
+ */
+export interface FindOptions {
+    terms: FilterTerm[];
+    context?: number;
+}
+
+export interface SessionChange {
+    /** The rows were rebuilt, so row indexes changed */
+    rebuilt: boolean;
+    /** Row to show at the top, keeping the line that was there in view */
+    scrollTo?: number;
+}
+
+// Time a filter pass may take before yielding, in ms
+const FILTER_SLICE = 15;
+// Lines read from the buffer at a time
+const READ_CHUNK = 2000;
+// Rows sent per request
+const MAX_PAGE = 1000;
+// Rows looked back for the line before a page, for its first line's delta
+const DELTA_LOOKBACK = 50;
+// Time between checks for lines that aged out of an age: query, in ms
+const AGE_OUT_INTERVAL = 1000;
+
+export class LogSession {
+    private visibleIds: number[] = [];
+    /** Sort keys of the visible lines, when sorted */
+    private visibleKeys: SortableEntry[] = [];
+    private sortOrder?: SortOrder;
+    private rows: Row[] = [];
+    private rowsDirty = false;
+    private generationValue = 0;
+    private topRow = 0;
+    private startTimeValue?: number;
+
+    private crashes = new Map<number, CrashState>();
+    private crashLines = new Map<number, number>();
+    private repeats = new Map<number, RepeatState>();
+    /** The last line kept, which repeats merge into */
+    private lastRow?: { id: number; source: string; template: string };
+    private mergedCount = 0;
+
+    private filter: LineFilter = { level: DEFAULT_FILTERS.level, tag: '', search: '', buffer: '', packages: {} };
+    private filterKey = '';
+    private context: QueryContext = { packages: {} };
+    private matches: (entry: BufferedEntry) => boolean = createLineFilter(this.filter, this.context);
+    private pass?: FilterPass;
+    private usesAge = false;
+    private lastAgeOut = 0;
+    /** Lines before this one no longer match the age: query */
+    private ageFromId = 1;
+    /** First line held back from the rows, while held */
+    private heldFromId?: number;
+    /** Held lines that will be shown on release */
+    private heldShown = 0;
+
+    private find?: FindOptions;
+    private hits = new Set<number>();
+    /** Indexes into visibleIds of the last hit and of the last line shown in context mode */
+    private lastHitIndex = -1;
+    private lastShownIndex = -1;
+
+    private dedupValue = false;
+
+    constructor(
+        private readonly buffer: LogBuffer,
+        private readonly onDidChange: (change: SessionChange) => void
+    ) {}
+
+    /** Changes whenever the rows are rebuilt */
+    get generation(): number {
+        return this.generationValue;
+    }
+
+    /** Id the next line will get */
+    get nextId(): number {
+        return this.buffer.nextId;
+    }
+
+    get rowCount(): number {
+        return this.rows.length;
+    }
+
+    /** Lines kept, not counting lines folded into repeats */
+    get lineCount(): number {
+        return this.buffer.size - (this.dedupValue ? this.mergedCount : 0);
+    }
+
+    /** Whether repeated lines are folded into the row before them */
+    get dedup(): boolean {
+        return this.dedupValue;
+    }
+
+    get visibleCount(): number {
+        return this.visibleIds.length;
+    }
+
+    get filtering(): boolean {
+        return this.pass !== undefined;
+    }
+
+    get sort(): SortOrder | undefined {
+        return this.sortOrder;
+    }
+
+    /** Time of the first line that has one, in ms */
+    get startTime(): number | undefined {
+        return this.startTimeValue;
+    }
+
+    /** Shown lines the find matches */
+    get hitCount(): number {
+        return this.hits.size;
+    }
+
+    /** Lines added while held that will be shown on release */
+    get heldCount(): number {
+        return this.heldFromId === undefined ? 0 : this.heldShown;
+    }
+
+    setCapacity(capacity: number): void {
+        this.buffer.setCapacity(capacity);
+    }
+
+    dispose(): void {
+        this.pass = undefined;
+        this.buffer.dispose();
+    }
+
+    /**
+     * Add lines; only they are tested against the filters
+     */
+    append(entries: ViewLogEntry[]): void {
+        const sorted: BufferedEntry[] = [];
+        for (const entry of entries) {
+            // age: terms count back from the newest line
+            if (entry.time !== undefined && !(entry.time <= (this.context.now ?? -Infinity))) {
+                this.context.now = entry.time;
+            }
+            if (this.startTimeValue === undefined) {
+                this.startTimeValue = entry.time;
+            }
+
+            const mergedInto = this.mergeRepeat(entry);
+            const buffered = this.buffer.append(entry, mergedInto);
+            if (mergedInto !== undefined) {
+                this.mergedCount++;
+                if (this.dedupValue) {
+                    continue;
+                }
+            }
+
+            if (entry.crashId) {
+                this.crashLines.set(buffered.id, entry.crashId);
+                if (!this.crashes.has(entry.crashId)) {
+                    this.crashes.set(entry.crashId, { summary: '', expanded: false, shown: false });
+                }
+            }
+
+            // A running pass reaches new lines by itself
+            if (this.heldFromId !== undefined) {
+                if (!this.pass && this.matches(buffered)) {
+                    this.heldShown++;
+                }
+            } else if (!this.pass && this.matches(buffered)) {
+                const hit = this.isHit(buffered);
+                if (hit) {
+                    this.hits.add(buffered.id);
+                }
+                if (this.sortOrder) {
+                    sorted.push(buffered);
+                } else {
+                    this.visibleIds.push(buffered.id);
+                    if (!this.rowsDirty) {
+                        this.appendVisible(this.visibleIds.length - 1, hit);
+                    }
+                }
+            }
+        }
+
+        if (this.heldFromId !== undefined) {
+            return;
+        }
+        if (sorted.length > 0) {
+            this.addSorted(sorted);
+        }
+
+        // Lines age out of age: queries as newer ones arrive
+        if (this.usesAge && !this.pass && Date.now() - this.lastAgeOut > AGE_OUT_INTERVAL) {
+            this.lastAgeOut = Date.now();
+            this.ageOut();
+        }
+
+        if (this.rowsDirty && !this.pass) {
+            this.onDidChange(this.rebuildRows());
+        } else {
+            this.onDidChange({ rebuilt: false });
+        }
+    }
+
+    /**
+     * Keep new lines in the buffer without showing them, e.g. while the
+     * view is paused, so the rows do not change
+     */
+    hold(): void {
+        if (this.heldFromId === undefined) {
+            this.heldFromId = this.buffer.nextId;
+            this.heldShown = 0;
+        }
+    }
+
+    /**
+     * Show the lines added while held
+     */
+    release(): void {
+        const fromId = this.heldFromId;
+        this.heldFromId = undefined;
+        if (fromId === undefined || fromId === this.buffer.nextId) {
+            return;
+        }
+        // A running pass reaches them by itself, adding those it only counted
+        if (this.pass) {
+            this.pass.nextId = Math.min(this.pass.nextId, fromId);
+            this.pass.held = 0;
+            return;
+        }
+
+        // Only the held lines are tested; the shown ones stay
+        const pass: FilterPass = {
+            matches: this.matches,
+            index: 0,
+            nextId: fromId,
+            result: [...this.visibleIds],
+            keys: [...this.visibleKeys],
+            hits: new Set(this.hits),
+            held: 0
+        };
+        this.pass = pass;
+        this.continuePass(pass);
+    }
+
+    /**
+     * Set the summary of a crash incident; call before adding its lines
+     */
+    updateCrash(crashId: number, summary: string): void {
+        const crash = this.crashes.get(crashId);
+        if (crash) {
+            crash.summary = summary;
+        } else {
+            this.crashes.set(crashId, { summary, expanded: false, shown: false });
+        }
+    }
+
+    toggleCrash(crashId: number): void {
+        const crash = this.crashes.get(crashId);
+        if (crash) {
+            crash.expanded = !crash.expanded;
+            this.refreshRows();
+        }
+    }
+
+    toggleRepeats(id: number): void {
+        const repeat = this.repeats.get(id);
+        if (repeat) {
+            repeat.expanded = !repeat.expanded;
+            this.refreshRows();
+        }
+    }
+
+    /**
+     * Fold repeated lines into the row before them, or show them apart;
+     * repeats are tracked either way, so the shown lines are redone
+     */
+    setDedup(enabled: boolean): void {
+        if (enabled !== this.dedupValue) {
+            this.dedupValue = enabled;
+            this.startPass(false);
+        }
+    }
+
+    setFilter(filter: LineFilter): void {
+        const key = JSON.stringify([filter.tag, filter.search, filter.buffer, filter.pids, filter.packages]);
+        // Raising the level only hides lines, so only the shown ones need testing
+        const narrowing = !this.pass && key === this.filterKey && filter.query === this.filter.query &&
+            (PRIORITY_LEVELS[filter.level] ?? 0) >= (PRIORITY_LEVELS[this.filter.level] ?? 0);
+
+        this.filter = filter;
+        this.filterKey = key;
+        this.context.packages = filter.packages;
+        this.usesAge = !!filter.query && hasQueryField(filter.query, 'age');
+        this.startPass(narrowing);
+    }
+
+    /**
+     * Sort the shown lines on a column, or show them in arrival order again
+     */
+    setSort(sort: SortOrder | undefined): void {
+        this.sortOrder = sort;
+        this.startPass(!this.pass);
+    }
+
+    /**
+     * Find lines among the shown ones, or stop finding
+     */
+    setFind(find: FindOptions | undefined): void {
+        this.find = find;
+        this.startPass(!this.pass);
+    }
+
+    /**
+     * Find the next or previous row of a hit after a row, wrapping around.
+     * `index` counts the hits shown before it.
+     */
+    findHit(fromRow: number, forward: boolean): { row: number; id: number; index: number; total: number } | undefined {
+        const hitRows: number[] = [];
+        this.rows.forEach((row, index) => {
+            if (typeof row === 'number' && this.hits.has(row)) {
+                hitRows.push(index);
+            }
+        });
+        if (hitRows.length === 0) {
+            return undefined;
+        }
+
+        let index: number;
+        if (forward) {
+            index = hitRows.findIndex(row => row > fromRow);
+        } else {
+            index = hitRows.length - 1;
+            while (index >= 0 && hitRows[index] >= fromRow) {
+                index--;
+            }
+        }
+        if (index < 0) {
+            index = forward ? 0 : hitRows.length - 1;
+        }
+        return { row: hitRows[index], id: this.rows[hitRows[index]] as number, index, total: hitRows.length };
+    }
+
+    /**
+     * Get rows for the view; `top` is the row at the top of its viewport.
+     * Lines carry the time since the line shown before them.
+     */
+    getRows(start: number, end: number, top: number): ViewRow[] {
+        this.topRow = top;
+        const before = this.rows.slice(Math.max(start - DELTA_LOOKBACK, 0), start);
+        const page = this.rows.slice(start, Math.min(end, start + MAX_PAGE));
+        const lines = this.readRowLines([...before, ...page]);
+        const rows = page.map(row => this.toViewRow(row, lines));
+
+        let previous = getTimeBefore(before, lines);
+        for (const row of rows) {
+            if (row.kind === 'line' && row.entry.time !== undefined) {
+                if (previous !== undefined) {
+                    row.delta = row.entry.time - previous;
+                }
+                previous = row.entry.time;
+            }
+        }
+        return rows;
+    }
+
+    /**
+     * Read lines by id, including those folded into repeats
+     */
+    getLines(fromId: number, count: number): BufferedEntry[] {
+        return this.buffer.getRange(fromId, count);
+    }
+
+    /**
+     * Find the row of a line, or -1 when it is not shown
+     */
+    indexOfLine(id: number): number {
+        for (let row = this.findRow(id); row < this.rows.length && getRowId(this.rows[row]) === id; row++) {
+            if (this.rows[row] === id) {
+                return row;
+            }
+        }
+        return -1;
+    }
+
+    clear(): void {
+        this.buffer.clear();
+        this.visibleIds = [];
+        this.visibleKeys = [];
+        this.rows = [];
+        this.rowsDirty = false;
+        this.topRow = 0;
+        this.hits.clear();
+        this.crashes.clear();
+        this.crashLines.clear();
+        this.repeats.clear();
+        this.lastRow = undefined;
+        this.mergedCount = 0;
+        this.context.now = undefined;
+        this.ageFromId = 1;
+        if (this.heldFromId !== undefined) {
+            this.heldFromId = this.buffer.nextId;
+            this.heldShown = 0;
+        }
+        this.startTimeValue = undefined;
+        this.pass = undefined;
+        this.generationValue++;
+        this.onDidChange({ rebuilt: true });
+    }
+
+    /**
+     * Check whether the line before has the same tag and process and a
+     * message that matches after masking numbers and hex. Returns its id if
+     * the entry repeats it.
+     */
+    private mergeRepeat(entry: ViewLogEntry): number | undefined {
+        if (entry.crashId) {
+            this.lastRow = undefined;
+            return undefined;
+        }
+
+        const source = `${entry.pid}|${entry.tag}|${entry.priority}`;
+        const template = getMessageTemplate(entry.message ?? entry.raw);
+        const last = this.lastRow;
+
+        if (last && last.source === source && last.template === template) {
+            let repeat = this.repeats.get(last.id);
+            if (!repeat) {
+                repeat = { count: 1, expanded: false };
+                this.repeats.set(last.id, repeat);
+            }
+            repeat.count++;
+            repeat.lastTimestamp = entry.timestamp;
+            if (this.dedupValue && repeat.expanded) {
+                this.rowsDirty = true;
+            }
+            return last.id;
+        }
+
+        this.lastRow = { id: this.buffer.nextId, source, template };
+        return undefined;
+    }
+
+    private startPass(narrowing: boolean): void {
+        const pass: FilterPass = {
+            matches: createLineFilter(this.filter, this.context),
+            ids: narrowing ? this.visibleIds : undefined,
+            index: 0,
+            nextId: narrowing ? this.heldFromId ?? this.buffer.nextId : 1,
+            result: [],
+            keys: [],
+            hits: new Set(),
+            held: 0
+        };
+        this.pass = pass;
+        this.continuePass(pass);
+    }
+
+    private continuePass(pass: FilterPass): void {
+        if (this.pass !== pass) {
+            return;
+        }
+
+        const deadline = Date.now() + FILTER_SLICE;
+        while (Date.now() < deadline) {
+            if (pass.ids) {
+                const end = Math.min(pass.index + READ_CHUNK, pass.ids.length);
+                for (const entry of this.readLines(pass.ids.slice(pass.index, end))) {
+                    if (pass.matches(entry)) {
+                        this.addResult(pass, entry);
+                    }
+                }
+                pass.index = end;
+                if (end === pass.ids.length) {
+                    pass.ids = undefined;
+                }
+                continue;
+            }
+
+            if (pass.nextId >= this.buffer.nextId) {
+                this.pass = undefined;
+                this.matches = pass.matches;
+                this.heldShown = pass.held;
+                this.setVisible(pass);
+                this.onDidChange(this.rebuildRows());
+                return;
+            }
+
+            // Held lines are only counted; the pass that shows them runs on release
+            const heldFromId = this.heldFromId ?? Infinity;
+            const held = pass.nextId >= heldFromId;
+            const entries = this.buffer.getRange(pass.nextId, held ? READ_CHUNK : Math.min(READ_CHUNK, heldFromId - pass.nextId));
+            for (const entry of entries) {
+                if ((!this.dedupValue || entry.mergedInto === undefined) && pass.matches(entry)) {
+                    if (held) {
+                        pass.held++;
+                    } else {
+                        this.addResult(pass, entry);
+                    }
+                }
+            }
+            pass.nextId += entries.length;
+        }
+
+        this.onDidChange({ rebuilt: false });
+        setImmediate(() => this.continuePass(pass));
+    }
+
+    private addResult(pass: FilterPass, entry: BufferedEntry): void {
+        pass.result.push(entry.id);
+        if (this.sortOrder) {
+            pass.keys.push(this.getSortKey(entry));
+        }
+        if (this.isHit(entry)) {
+            pass.hits.add(entry.id);
+        }
+    }
+
+    private isHit(entry: BufferedEntry): boolean {
+        return this.find !== undefined && matchesFilter(entry.raw, this.find.terms);
+    }
+
+    /**
+     * Show the lines a pass found, sorted if a sort order is set. Equal
+     * lines stay in arrival order.
+     */
+    private setVisible(pass: FilterPass): void {
+        this.hits = pass.hits;
+        this.ageFromId = 1;
+        const sort = this.sortOrder;
+        if (!sort) {
+            // Lines narrowed down from a sorted view are still in its order
+            this.visibleIds = pass.result.sort((a, b) => a - b);
+            this.visibleKeys = [];
+            return;
+        }
+
+        const order = pass.result.map((_, index) => index);
+        order.sort((a, b) => compareEntries(pass.keys[a], pass.keys[b], sort.column, sort.ascending) || a - b);
+        this.visibleIds = order.map(index => pass.result[index]);
+        this.visibleKeys = order.map(index => pass.keys[index]);
+    }
+
+    /**
+     * Add new lines at their place in the sort order, after equal ones.
+     * Lines that sort after all shown ones are appended to the rows; others
+     * are merged in at once, and the rows rebuilt.
+     */
+    private addSorted(entries: BufferedEntry[]): void {
+        const sort = this.sortOrder!;
+        const compare = (a: SortableEntry, b: SortableEntry) => compareEntries(a, b, sort.column, sort.ascending);
+        const added = entries.map(entry => ({ id: entry.id, key: this.getSortKey(entry) }));
+        added.sort((a, b) => compare(a.key, b.key) || a.id - b.id);
+
+        const last = this.visibleKeys[this.visibleKeys.length - 1];
+        if (last === undefined || compare(added[0].key, last) >= 0) {
+            for (const line of added) {
+                this.visibleIds.push(line.id);
+                this.visibleKeys.push(line.key);
+                if (!this.rowsDirty) {
+                    this.appendVisible(this.visibleIds.length - 1, this.hits.has(line.id));
+                }
+            }
+            return;
+        }
+
+        const ids: number[] = [];
+        const keys: SortableEntry[] = [];
+        let next = 0;
+        this.visibleIds.forEach((id, index) => {
+            for (; next < added.length && compare(added[next].key, this.visibleKeys[index]) < 0; next++) {
+                ids.push(added[next].id);
+                keys.push(added[next].key);
+            }
+            ids.push(id);
+            keys.push(this.visibleKeys[index]);
+        });
+        for (; next < added.length; next++) {
+            ids.push(added[next].id);
+            keys.push(added[next].key);
+        }
+        this.visibleIds = ids;
+        this.visibleKeys = keys;
+        this.rowsDirty = true;
+    }
+
+    /**
+     * Hide the shown lines that aged out of the age: query. Lines are
+     * tested from the oldest on, up to the first that still matches, so
+     * each line is tested once. A query that shows lines again once they
+     * are old enough is run again instead.
+     */
+    private ageOut(): void {
+        if (!onlyAgesOut(this.filter.query!)) {
+            this.startPass(false);
+            return;
+        }
+
+        const deadline = Date.now() + FILTER_SLICE;
+        let cutoff = this.ageFromId;
+        let matched = false;
+        while (!matched && cutoff < this.buffer.nextId && Date.now() < deadline) {
+            const entries = this.buffer.getRange(cutoff, READ_CHUNK);
+            for (const entry of entries) {
+                if ((!this.dedupValue || entry.mergedInto === undefined) && this.matches(entry)) {
+                    matched = true;
+                    break;
+                }
+                cutoff++;
+            }
+        }
+        if (cutoff === this.ageFromId) {
+            return;
+        }
+        this.ageFromId = cutoff;
+
+        // Lines only ever leave the query, so every shown line before the cutoff aged out
+        const aged = this.visibleIds.filter(id => id < cutoff);
+        if (aged.length === 0) {
+            return;
+        }
+        aged.forEach(id => this.hits.delete(id));
+        if (this.sortOrder) {
+            this.visibleKeys = this.visibleKeys.filter((_, index) => this.visibleIds[index] >= cutoff);
+        }
+        this.visibleIds = this.visibleIds.filter(id => id >= cutoff);
+        this.rowsDirty = true;
+    }
+
+    private getSortKey(entry: BufferedEntry): SortableEntry {
+        const column = this.sortOrder!.column;
+        return { [column]: entry[column] };
+    }
+
+    /**
+     * Rebuild rows after a crash or repeat row was expanded or collapsed
+     */
+    private refreshRows(): void {
+        if (this.pass) {
+            // Rebuilt when the pass is done
+            this.rowsDirty = true;
+            return;
+        }
+        this.onDidChange(this.rebuildRows());
+    }
+
+    /**
+     * Rebuild all rows, keeping the line at the top of the view in place
+     */
+    private rebuildRows(): SessionChange {
+        const top = this.rows[Math.min(this.topRow, this.rows.length - 1)];
+
+        this.rowsDirty = false;
+        this.rows = [];
+        this.crashes.forEach(crash => crash.shown = false);
+        this.lastHitIndex = -1;
+        this.lastShownIndex = -1;
+        this.visibleIds.forEach((id, index) => this.appendVisible(index, this.hits.has(id)));
+        this.generationValue++;
+
+        if (top === undefined) {
+            return { rebuilt: true };
+        }
+        this.topRow = this.findRow(getRowId(top));
+        return { rebuilt: true, scrollTo: this.topRow };
+    }
+
+    /**
+     * Add the rows of the visible line at an index. In context mode a hit
+     * also shows the lines before it, and lines after a hit are shown
+     * while they are close enough.
+     */
+    private appendVisible(index: number, hit: boolean): void {
+        const context = this.find?.context;
+        if (context === undefined) {
+            this.appendRows(this.visibleIds[index]);
+        } else if (hit) {
+            this.lastHitIndex = index;
+            this.showContext(index - context, index);
+        } else if (this.lastHitIndex >= 0 && index <= this.lastHitIndex + context) {
+            this.showContext(index, index);
+        }
+    }
+
+    /**
+     * Show the visible lines from one index to another in context mode,
+     * after a gap row if lines were left out before them
+     */
+    private showContext(from: number, to: number): void {
+        from = Math.max(from, this.lastShownIndex + 1);
+        if (from > to) {
+            return;
+        }
+        if (this.lastShownIndex >= 0 && from > this.lastShownIndex + 1) {
+            this.rows.push({ kind: 'gap', id: this.visibleIds[from] });
+        }
+        for (let index = from; index <= to; index++) {
+            this.appendRows(this.visibleIds[index]);
+        }
+        this.lastShownIndex = to;
+    }
+
+    /**
+     * Add the rows of a visible line: a header before the first line of a
+     * crash incident, which hides the others until expanded, and the repeats
+     * of an expanded row after it. Sorted lines of an incident are apart,
+     * so they are not collapsed.
+     */
+    private appendRows(id: number): void {
+        const crashId = this.crashLines.get(id);
+        const crash = crashId !== undefined ? this.crashes.get(crashId) : undefined;
+        if (crashId !== undefined && crash && !this.sortOrder) {
+            if (!crash.shown) {
+                crash.shown = true;
+                this.rows.push({ kind: 'header', id, crashId });
+            }
+            if (!crash.expanded) {
+                return;
+            }
+        }
+
+        this.rows.push(id);
+
+        const repeat = this.dedupValue ? this.repeats.get(id) : undefined;
+        if (repeat?.expanded) {
+            for (let repeatId = id + 1; repeatId < id + repeat.count; repeatId++) {
+                this.rows.push({ kind: 'repeat', id, repeatId });
+            }
+        }
+    }
+
+    /**
+     * Find the first row of a line, or of the next line shown after it
+     */
+    private findRow(id: number): number {
+        if (this.sortOrder) {
+            return Math.max(this.rows.findIndex(row => getRowId(row) === id), 0);
+        }
+
+        let low = 0;
+        let high = this.rows.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (getRowId(this.rows[mid]) < id) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+
+    /**
+     * Read lines in the order given, a run of consecutive ids at a time
+     */
+    private readLines(ids: number[]): BufferedEntry[] {
+        const entries: BufferedEntry[] = [];
+        for (let start = 0; start < ids.length;) {
+            let end = start + 1;
+            while (end < ids.length && ids[end] === ids[end - 1] + 1) {
+                end++;
+            }
+            for (const entry of this.buffer.getRange(ids[start], end - start)) {
+                entries.push(entry);
+            }
+            start = end;
+        }
+        return entries;
+    }
+
+    /**
+     * Read the lines of rows and of their repeats by id
+     */
+    private readRowLines(rows: Row[]): Map<number, BufferedEntry> {
+        const ids: number[] = [];
+        for (const row of rows) {
+            if (typeof row === 'number') {
+                ids.push(row);
+            } else if (row.kind === 'repeat') {
+                ids.push(row.repeatId);
+            }
+        }
+        ids.sort((a, b) => a - b);
+        return new Map(this.readLines(ids).map(entry => [entry.id, entry]));
+    }
+
+    private toViewRow(row: Row, lines: Map<number, BufferedEntry>): ViewRow {
+        if (typeof row === 'number') {
+            const repeat = this.dedupValue ? this.repeats.get(row) : undefined;
+            return {
+                kind: 'line',
+                id: row,
+                entry: lines.get(row)!,
+                crash: this.crashLines.has(row) || undefined,
+                count: repeat?.count,
+                lastTimestamp: repeat?.lastTimestamp
+            };
+        }
+
+        switch (row.kind) {
+            case 'header': {
+                const crash = this.crashes.get(row.crashId)!;
+                return { kind: 'header', crashId: row.crashId, summary: crash.summary, expanded: crash.expanded };
+            }
+            case 'repeat':
+                return { kind: 'repeat', id: row.repeatId, entry: lines.get(row.repeatId)! };
+            case 'gap':
+                return { kind: 'gap' };
+        }
+    }
+}
+
+function getRowId(row: Row): number {
+    return typeof row === 'number' ? row : row.id;
+}
+
+/**
+ * Time of the nearest line with one among the rows above a page
+ */
+function getTimeBefore(rows: Row[], lines: Map<number, BufferedEntry>): number | undefined {
+    for (let index = rows.length - 1; index >= 0; index--) {
+        const row = rows[index];
+        const time = typeof row === 'number' ? lines.get(row)?.time : undefined;
+        if (time !== undefined) {
+            return time;
+        }
+    }
+    return undefined;
+}
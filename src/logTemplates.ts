@@ -0,0 +1,17 @@
+/**
+ * Log Templates
+ * Reduces messages to templates by masking their variable parts, so that
+ * "Skipped 31 frames!" and "Skipped 47 frames!" count as the same line.
+ */
+
+/**
+ * Mask UUIDs, hex values, paths and numbers in a message
+ */
+export function getMessageTemplate(message: string): string {
+    return message
+        .replace(/\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g, '<uuid>')
+        .replace(/\b0x[0-9a-fA-F]+\b/g, '<hex>')
+        .replace(/\b(?=[0-9a-fA-F]*[0-9])(?=[0-9a-fA-F]*[a-fA-F])[0-9a-fA-F]{8,}\b/g, '<hex>')
+        .replace(/(?:\/[\w.@~+-]+){2,}\/?/g, '<path>')
+        .replace(/(?<!\w)\d+(?:[.,:]\d+)*/g, '#');
+}
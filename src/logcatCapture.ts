@@ -2,6 +2,9 @@ import * as vscode from 'vscode';
 import * as cp from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { IdleFlush, LogEntry, LogcatStreamParser, entriesToText } from './logcatParser';
+import { BookmarkStore, writeBookmarkFile } from './bookmarks';
+import { DEFAULT_LOG_BUFFERS, LOG_BUFFERS, toLogBuffers } from './logcatProtocol';
 
 let adbProcess: cp.ChildProcess | null = null;
 let outputChannel: vscode.OutputChannel | null = null;
@@ -133,6 +136,42 @@ export async function startLiveCapture(): Promise<void> {
     
     const format = formatOptions?.label || 'threadtime';
     
+    // Buffers to read; dividers between them tag each line with its buffer
+    const bufferOptions = await vscode.window.showQuickPick(LOG_BUFFERS.map(buffer => ({
+        label: buffer,
+        description: buffer === 'all' ? 'Every buffer of the device' : undefined,
+        picked: DEFAULT_LOG_BUFFERS.includes(buffer)
+    })), {
+        placeHolder: 'Select log buffers (optional)',
+        canPickMany: true
+    });
+    
+    const buffers = toLogBuffers(bufferOptions?.map(option => option.label));
+    
+    // Optional: format modifiers, combined with the base format
+    let modifiers: string[] = [];
+    if (format !== 'raw') {
+        const modifierOptions = await vscode.window.showQuickPick([
+            { label: 'year', description: 'Include the year in timestamps' },
+            { label: 'usec', description: 'Microsecond precision timestamps' },
+            { label: 'nsec', description: 'Nanosecond precision timestamps' },
+            { label: 'epoch', description: 'Seconds since Jan 1 1970 instead of date and time' },
+            { label: 'monotonic', description: 'CPU seconds since boot instead of date and time' },
+            { label: 'uid', description: 'Show the UID or Android ID of the logging process' },
+            { label: 'zone', description: 'Append the UTC offset to timestamps' },
+            { label: 'UTC', description: 'Show timestamps in UTC (adds zone so times stay unambiguous)' },
+            { label: 'printable', description: 'Escape non-printable bytes in messages' }
+        ], {
+            placeHolder: 'Select format modifiers (optional)',
+            canPickMany: true
+        });
+        
+        modifiers = modifierOptions?.map(option => option.label) || [];
+        if (modifiers.includes('UTC') && !modifiers.includes('zone')) {
+            modifiers.push('zone');
+        }
+    }
+    
     // Optional: filter by priority
     const priorityFilter = await vscode.window.showQuickPick([
         { label: '*:V', description: 'All messages (Verbose and above)' },
@@ -153,7 +192,10 @@ export async function startLiveCapture(): Promise<void> {
     });
     
     // Build adb command arguments
-    const args = ['logcat', '-v', format];
+    const args = ['logcat', '-b', buffers.join(','), '-D', '-v', format];
+    for (const modifier of modifiers) {
+        args.push('-v', modifier);
+    }
     
     if (targetDevice) {
         args.unshift('-s', targetDevice);
@@ -200,6 +242,7 @@ async function startCaptureToEditor(adbPath: string, args: string[]): Promise<vo
     
     try {
         adbProcess = cp.spawn(adbPath, args);
+        const parser = new LogcatStreamParser();
         
         let buffer = '';
         const updateInterval = 100; // ms
@@ -227,8 +270,21 @@ async function startCaptureToEditor(adbPath: string, args: string[]): Promise<vo
             updateTimeout = null;
         };
         
+        const appendEntries = (entries: LogEntry[]) => {
+            if (entries.length > 0) {
+                buffer += entriesToText(entries) + '\n';
+            }
+        };
+        const idleFlush = new IdleFlush(parser, entries => {
+            appendEntries(entries);
+            if (!updateTimeout) {
+                updateTimeout = setTimeout(flushBuffer, updateInterval);
+            }
+        });
+        
         adbProcess.stdout?.on('data', (data: Buffer) => {
-            buffer += data.toString();
+            appendEntries(parser.push(data));
+            idleFlush.restart();
             
             // Batch updates to avoid too many edits
             if (!updateTimeout) {
@@ -247,6 +303,8 @@ async function startCaptureToEditor(adbPath: string, args: string[]): Promise<vo
             if (updateTimeout) {
                 clearTimeout(updateTimeout);
             }
+            idleFlush.cancel();
+            appendEntries(parser.end());
             flushBuffer().then(() => {
                 if (liveDocument) {
                     const edit = new vscode.WorkspaceEdit();
@@ -290,9 +348,18 @@ async function startCaptureToOutput(adbPath: string, args: string[]): Promise<vo
     
     try {
         adbProcess = cp.spawn(adbPath, args);
+        const parser = new LogcatStreamParser();
+        
+        const appendEntries = (entries: LogEntry[]) => {
+            if (entries.length > 0) {
+                outputChannel?.appendLine(entriesToText(entries));
+            }
+        };
+        const idleFlush = new IdleFlush(parser, appendEntries);
         
         adbProcess.stdout?.on('data', (data: Buffer) => {
-            outputChannel?.append(data.toString());
+            appendEntries(parser.push(data));
+            idleFlush.restart();
         });
         
         adbProcess.stderr?.on('data', (data: Buffer) => {
@@ -300,6 +367,8 @@ async function startCaptureToOutput(adbPath: string, args: string[]): Promise<vo
         });
         
         adbProcess.on('close', (code) => {
+            idleFlush.cancel();
+            appendEntries(parser.end());
             outputChannel?.appendLine(`\n// Logcat capture ended with code ${code}`);
             cleanup();
         });
@@ -364,9 +433,9 @@ export async function clearLogcatBuffer(): Promise<void> {
 }
 
 /**
- * Save current live capture to file
+ * Save current live capture to file, with its bookmarks next to it
  */
-export async function saveCaptureToFile(): Promise<void> {
+export async function saveCaptureToFile(bookmarks: BookmarkStore): Promise<void> {
     if (!liveDocument) {
         vscode.window.showWarningMessage('No active logcat capture to save');
         return;
@@ -383,6 +452,7 @@ export async function saveCaptureToFile(): Promise<void> {
     if (uri) {
         const content = liveDocument.getText();
         await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+        await writeBookmarkFile(uri.fsPath, bookmarks.get(liveDocument.uri.toString()));
         vscode.window.showInformationMessage(`Saved to ${uri.fsPath}`);
     }
 }
@@ -1,113 +1,129 @@
-import * as vscode from 'vscode';
-import { LogEntry, LogPriority, parseLogcat, getPriorityLevel } from './logcatParser';
-
 /**
- * Decoration types for each log priority level
+ * Logcat Colorizer
+ * Colors lines of logcat editors by priority with the contributed
+ * logcat.*Foreground theme colors, and applies the highlight rules.
  */
-let decorationTypes: Map<LogPriority, vscode.TextEditorDecorationType> = new Map();
 
-/**
- * Initialize decoration types based on configuration
- */
-export function initializeDecorations(context: vscode.ExtensionContext): void {
-    disposeDecorations();
-    
-    const config = vscode.workspace.getConfiguration('logcat-viewer');
-    
-    const createDecorationType = (color: string, isBold: boolean = false): vscode.TextEditorDecorationType => {
-        return vscode.window.createTextEditorDecorationType({
-            color: color,
-            fontWeight: isBold ? 'bold' : 'normal',
-            isWholeLine: true
-        });
-    };
-    
-    decorationTypes.set(LogPriority.VERBOSE, createDecorationType(config.get('verboseColor', '#808080')));
-    decorationTypes.set(LogPriority.DEBUG, createDecorationType(config.get('debugColor', '#0000FF')));
-    decorationTypes.set(LogPriority.INFO, createDecorationType(config.get('infoColor', '#00FF00')));
-    decorationTypes.set(LogPriority.WARNING, createDecorationType(config.get('warningColor', '#FFA500'), true));
-    decorationTypes.set(LogPriority.ERROR, createDecorationType(config.get('errorColor', '#FF0000'), true));
-    decorationTypes.set(LogPriority.FATAL, createDecorationType(config.get('fatalColor', '#FF00FF'), true));
-    decorationTypes.set(LogPriority.SILENT, createDecorationType('#404040'));
-    
-    // Register for disposal
-    decorationTypes.forEach(decoration => {
-        context.subscriptions.push(decoration);
-    });
-}
+import * as vscode from 'vscode';
+import { LogPriority, parseLogcat } from './logcatParser';
+import { toViewEntry } from './logcatProtocol';
+import { HighlightRule, HighlightRuleStore, toDecorationColor } from './highlightRules';
 
-/**
- * Dispose all decoration types
- */
-export function disposeDecorations(): void {
-    decorationTypes.forEach(decoration => {
-        decoration.dispose();
+// Documents are colored again this long after the last edit, in ms
+const COLORIZE_DELAY = 200;
+
+const PRIORITY_COLORS: [LogPriority, string, boolean][] = [
+    [LogPriority.VERBOSE, 'logcat.verboseForeground', false],
+    [LogPriority.DEBUG, 'logcat.debugForeground', false],
+    [LogPriority.INFO, 'logcat.infoForeground', false],
+    [LogPriority.WARNING, 'logcat.warningForeground', true],
+    [LogPriority.ERROR, 'logcat.errorForeground', true],
+    [LogPriority.FATAL, 'logcat.fatalForeground', true],
+    [LogPriority.SILENT, 'disabledForeground', false]
+];
+
+function createRuleDecorationType(rule: HighlightRule): vscode.TextEditorDecorationType {
+    return vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        color: toDecorationColor(rule.foreground),
+        backgroundColor: toDecorationColor(rule.background),
+        fontWeight: rule.bold ? 'bold' : undefined,
+        before: rule.badge ? {
+            contentText: rule.badge,
+            color: new vscode.ThemeColor('badge.foreground'),
+            backgroundColor: new vscode.ThemeColor('badge.background'),
+            margin: '0 6px 0 0'
+        } : undefined
     });
-    decorationTypes.clear();
 }
 
 /**
- * Apply colorization to the active editor
+ * Color logcat editors, again after edits and when the highlight rules or
+ * the logcat-viewer.colorize setting change
  */
-export function applyColorization(editor: vscode.TextEditor): void {
-    const config = vscode.workspace.getConfiguration('logcat-viewer');
-    if (!config.get('colorize', true)) {
-        clearColorization(editor);
-        return;
-    }
-    
-    const document = editor.document;
-    const text = document.getText();
-    const entries = parseLogcat(text);
-    
-    // Group entries by priority
-    const decorationsByPriority: Map<LogPriority, vscode.DecorationOptions[]> = new Map();
-    
-    for (const priority of Object.values(LogPriority)) {
-        decorationsByPriority.set(priority, []);
-    }
-    
-    entries.forEach(entry => {
-        if (entry.priority) {
-            const decorations = decorationsByPriority.get(entry.priority);
-            if (decorations) {
-                const line = entry.lineNumber - 1; // Convert to 0-based
-                const lineText = document.lineAt(line);
-                decorations.push({
-                    range: lineText.range
-                });
-            }
+export function registerColorizer(highlights: HighlightRuleStore): vscode.Disposable {
+    const priorityTypes = new Map(PRIORITY_COLORS.map(([priority, color, bold]) => [
+        priority as string,
+        vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            color: new vscode.ThemeColor(color),
+            fontWeight: bold ? 'bold' : undefined
+        })
+    ]));
+    let ruleTypes = highlights.rules.map(createRuleDecorationType);
+    const timers = new Map<vscode.TextDocument, NodeJS.Timeout>();
+
+    const colorize = (editor: vscode.TextEditor) => {
+        const document = editor.document;
+        if (document.languageId !== 'logcat') {
+            return;
         }
-    });
-    
-    // Apply decorations
-    decorationsByPriority.forEach((decorations, priority) => {
-        const decorationType = decorationTypes.get(priority);
-        if (decorationType) {
-            editor.setDecorations(decorationType, decorations);
+        const config = vscode.workspace.getConfiguration('logcat-viewer');
+        const byPriority = config.get('colorize', true);
+
+        const priorityRanges = new Map<string, vscode.Range[]>();
+        const ruleRanges: vscode.Range[][] = ruleTypes.map(() => []);
+        for (const entry of parseLogcat(document.getText())) {
+            // Cover every line of multi-line entries
+            const range = new vscode.Range(
+                document.lineAt(entry.lineNumber - 1).range.start,
+                document.lineAt((entry.endLineNumber ?? entry.lineNumber) - 1).range.end
+            );
+            if (byPriority && entry.priority) {
+                const ranges = priorityRanges.get(entry.priority) ?? [];
+                ranges.push(range);
+                priorityRanges.set(entry.priority, ranges);
+            }
+            const rule = ruleTypes.length > 0 ? highlights.findRule(toViewEntry(entry)) : -1;
+            if (rule >= 0) {
+                ruleRanges[rule].push(range);
+            }
         }
-    });
-}
 
-/**
- * Clear all colorization from the editor
- */
-export function clearColorization(editor: vscode.TextEditor): void {
-    decorationTypes.forEach(decorationType => {
-        editor.setDecorations(decorationType, []);
-    });
-}
+        priorityTypes.forEach((decorationType, priority) =>
+            editor.setDecorations(decorationType, priorityRanges.get(priority) ?? []));
+        ruleTypes.forEach((decorationType, index) => editor.setDecorations(decorationType, ruleRanges[index]));
+    };
 
-/**
- * Update colorization when configuration changes
- */
-export function onConfigurationChanged(context: vscode.ExtensionContext): void {
-    initializeDecorations(context);
-    
-    // Re-apply to all visible editors
-    vscode.window.visibleTextEditors.forEach(editor => {
-        if (editor.document.languageId === 'logcat') {
-            applyColorization(editor);
-        }
-    });
+    const colorizeAll = () => vscode.window.visibleTextEditors.forEach(colorize);
+
+    const scheduleColorize = (document: vscode.TextDocument) => {
+        clearTimeout(timers.get(document));
+        timers.set(document, setTimeout(() => {
+            timers.delete(document);
+            vscode.window.visibleTextEditors.filter(editor => editor.document === document).forEach(colorize);
+        }, COLORIZE_DELAY));
+    };
+
+    colorizeAll();
+
+    return vscode.Disposable.from(
+        {
+            dispose: () => {
+                timers.forEach(timer => clearTimeout(timer));
+                priorityTypes.forEach(decorationType => decorationType.dispose());
+                ruleTypes.forEach(decorationType => decorationType.dispose());
+            }
+        },
+        vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(colorize)),
+        vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.document.languageId === 'logcat' && event.contentChanges.length > 0) {
+                scheduleColorize(event.document);
+            }
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            clearTimeout(timers.get(document));
+            timers.delete(document);
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('logcat-viewer.colorize')) {
+                colorizeAll();
+            }
+        }),
+        highlights.onDidChange(() => {
+            ruleTypes.forEach(decorationType => decorationType.dispose());
+            ruleTypes = highlights.rules.map(createRuleDecorationType);
+            colorizeAll();
+        })
+    );
 }
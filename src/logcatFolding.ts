@@ -0,0 +1,24 @@
+import * as vscode from 'vscode';
+import { detectCrashesInText } from './crashDetector';
+
+/**
+ * Folds each crash incident in a logcat document into one collapsible region
+ */
+export class LogcatFoldingRangeProvider implements vscode.FoldingRangeProvider {
+    provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+        const incidents = detectCrashesInText(document.getText());
+        const ranges: vscode.FoldingRange[] = [];
+
+        for (const incident of incidents) {
+            const first = incident.entries[0];
+            const last = incident.entries[incident.entries.length - 1];
+            const start = first.lineNumber - 1;
+            const end = (last.endLineNumber ?? last.lineNumber) - 1;
+            if (end > start) {
+                ranges.push(new vscode.FoldingRange(start, end, vscode.FoldingRangeKind.Region));
+            }
+        }
+
+        return ranges;
+    }
+}
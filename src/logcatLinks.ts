@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Symbolized native frame: "... // crash() at /src/main/cpp/foo.cpp:42:7"
+const SOURCE_LOCATION_PATTERN = /\sat\s+((?:[A-Za-z]:)?[\\/].*?):(\d+)(?::(\d+))?$/;
+
+// Java or Kotlin frame: "at com.example.app.MainActivity.onCreate(MainActivity.kt:42)"
+const STACK_FRAME_PATTERN = /\bat\s+([\w$.]+)\.[\w$<>]+\(([\w$-]+\.(?:java|kt)):(\d+)\)/;
+
+export interface StackFrame {
+    className: string;
+    fileName: string;
+    line: number;
+    /** Range of "MainActivity.kt:42" in the text */
+    start: number;
+    end: number;
+}
+
+// Source file of "com/example/app/MainActivity.kt", or null when not in the project
+let sourceCache = new Map<string, string | null>();
+let sourceRoots: string[] | null = null;
+
+/**
+ * Find a Java or Kotlin stack frame in a line
+ */
+export function parseStackFrame(text: string): StackFrame | undefined {
+    const match = text.match(STACK_FRAME_PATTERN);
+    if (!match || match.index === undefined) {
+        return undefined;
+    }
+
+    const location = `${match[2]}:${match[3]}`;
+    const start = match.index + match[0].lastIndexOf(location);
+    return {
+        className: match[1],
+        fileName: match[2],
+        line: parseInt(match[3], 10),
+        start,
+        end: start + location.length
+    };
+}
+
+/**
+ * Find the source file of a frame in the workspace's modules, where the
+ * package is the directory below src/<source set>/java or kotlin
+ */
+export function findFrameSource(className: string, fileName: string): string | undefined {
+    const packagePath = className.split('.').slice(0, -1).join('/');
+    const key = `${packagePath}/${fileName}`;
+
+    let source = sourceCache.get(key);
+    if (source === undefined) {
+        source = getSourceRoots()
+            .map(root => path.join(root, packagePath, fileName))
+            .find(file => fs.existsSync(file)) ?? null;
+        sourceCache.set(key, source);
+    }
+    return source ?? undefined;
+}
+
+/**
+ * Forget resolved frames after source files or workspace folders changed
+ */
+export function clearSourceCache(): void {
+    sourceCache = new Map();
+    sourceRoots = null;
+}
+
+/**
+ * Get the java and kotlin directories of every source set of the
+ * workspace folders and their modules
+ */
+function getSourceRoots(): string[] {
+    if (sourceRoots) {
+        return sourceRoots;
+    }
+
+    const roots: string[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const rootPath = folder.uri.fsPath;
+        const modules = [rootPath, ...listDirectories(rootPath).filter(name => !name.startsWith('.')).map(name => path.join(rootPath, name))];
+        for (const modulePath of modules) {
+            const srcPath = path.join(modulePath, 'src');
+            for (const sourceSet of listDirectories(srcPath)) {
+                for (const language of ['java', 'kotlin']) {
+                    const root = path.join(srcPath, sourceSet, language);
+                    if (fs.existsSync(root)) {
+                        roots.push(root);
+                    }
+                }
+            }
+        }
+    }
+    sourceRoots = roots;
+    return roots;
+}
+
+function listDirectories(dir: string): string[] {
+    try {
+        return fs.readdirSync(dir, { withFileTypes: true })
+            .filter(entry => entry.isDirectory())
+            .map(entry => entry.name);
+    } catch (error) {
+        return [];
+    }
+}
+
+/**
+ * Turns source locations and stack frames of project classes in logcat
+ * documents into links that open the file at that line
+ */
+export class LogcatDocumentLinkProvider implements vscode.DocumentLinkProvider {
+    provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        const links: vscode.DocumentLink[] = [];
+
+        for (let lineIndex = 0; lineIndex < document.lineCount; lineIndex++) {
+            const text = document.lineAt(lineIndex).text;
+            const link = getSourceLocationLink(text, lineIndex) ?? getStackFrameLink(text, lineIndex);
+            if (link) {
+                links.push(link);
+            }
+        }
+
+        return links;
+    }
+}
+
+function getSourceLocationLink(text: string, lineIndex: number): vscode.DocumentLink | undefined {
+    const match = text.match(SOURCE_LOCATION_PATTERN);
+    if (!match || match.index === undefined) {
+        return undefined;
+    }
+
+    const filePath = match[1];
+    const line = parseInt(match[2], 10);
+    const column = match[3] ? parseInt(match[3], 10) : 1;
+    const start = match.index + match[0].indexOf(filePath);
+    const range = new vscode.Range(lineIndex, start, lineIndex, text.length);
+
+    const target = vscode.Uri.file(filePath).with({ fragment: `L${line},${column}` });
+    const link = new vscode.DocumentLink(range, target);
+    link.tooltip = `Open ${filePath}:${line}`;
+    return link;
+}
+
+function getStackFrameLink(text: string, lineIndex: number): vscode.DocumentLink | undefined {
+    const frame = parseStackFrame(text);
+    const filePath = frame && findFrameSource(frame.className, frame.fileName);
+    if (!frame || !filePath) {
+        return undefined;
+    }
+
+    const range = new vscode.Range(lineIndex, frame.start, lineIndex, frame.end);
+    const link = new vscode.DocumentLink(range, vscode.Uri.file(filePath).with({ fragment: `L${frame.line}` }));
+    link.tooltip = `Open ${vscode.workspace.asRelativePath(filePath)}:${frame.line}`;
+    return link;
+}
@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import * as cp from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { IdleFlush, LogEntry, LogcatStreamParser, markAsError } from './logcatParser';
+import { HostMessage, PROTOCOL_VERSION, createHostMessage, createLogMessage, parseWebviewMessage } from './logcatProtocol';
 
 let panel: vscode.WebviewPanel | null = null;
 let adbProcess: cp.ChildProcess | null = null;
@@ -279,6 +281,11 @@ function getWebviewContent(): string {
     
     <script>
         const vscode = acquireVsCodeApi();
+        const PROTOCOL_VERSION = ${PROTOCOL_VERSION};
+        
+        function post(message) {
+            vscode.postMessage({ ...message, version: PROTOCOL_VERSION });
+        }
         const logContainer = document.getElementById('logContainer');
         const emptyState = document.getElementById('emptyState');
         const statusDot = document.getElementById('statusDot');
@@ -292,15 +299,12 @@ function getWebviewContent(): string {
         
         const priorityLevels = { V: 0, D: 1, I: 2, W: 3, E: 4, F: 5 };
         
-        // Regex to parse logcat lines
-        const logcatRegex = /^(\\d{2}-\\d{2}\\s+\\d{2}:\\d{2}:\\d{2}\\.\\d{3})\\s+(\\d+)\\s+(\\d+)\\s+([VDIWEF])\\s+([^:]+):\\s*(.*)$/;
-        
         function startCapture() {
-            vscode.postMessage({ command: 'start' });
+            post({ command: 'start' });
         }
         
         function stopCapture() {
-            vscode.postMessage({ command: 'stop' });
+            post({ command: 'stop' });
         }
         
         function clearLogs() {
@@ -467,34 +471,8 @@ function getWebviewContent(): string {
             logCountEl.textContent = filtered.length + ' / ' + allLogs.length + ' lines';
         }
         
-        function parseLine(line) {
-            const match = line.match(logcatRegex);
-            if (match) {
-                return {
-                    raw: line,
-                    timestamp: match[1],
-                    pid: match[2],
-                    tid: match[3],
-                    priority: match[4],
-                    tag: match[5].trim(),
-                    message: match[6]
-                };
-            }
-            
-            // Try to at least get the priority
-            const priorityMatch = line.match(/\\s([VDIWEF])\\s/);
-            return {
-                raw: line,
-                priority: priorityMatch ? priorityMatch[1] : null,
-                tag: ''
-            };
-        }
-        
-        function addLogs(lines) {
-            const newLogs = lines
-                .split('\\n')
-                .filter(line => line.trim())
-                .map(parseLine);
+        function addLogs(entries) {
+            const newLogs = entries.map(entry => ({ ...entry, tag: entry.tag || '' }));
             
             if (newLogs.length > 0) {
                 allLogs.push(...newLogs);
@@ -511,9 +489,11 @@ function getWebviewContent(): string {
         // Handle messages from extension
         window.addEventListener('message', event => {
             const message = event.data;
+            if (message.version !== PROTOCOL_VERSION) return;
+            
             switch (message.command) {
                 case 'log':
-                    addLogs(message.data);
+                    addLogs(message.entries);
                     break;
                 case 'started':
                     setRunning(true);
@@ -561,8 +541,9 @@ export function openLogcatPanel(context: vscode.ExtensionContext): void {
     
     // Handle messages from webview
     panel.webview.onDidReceiveMessage(
-        message => {
-            switch (message.command) {
+        data => {
+            const message = parseWebviewMessage(data);
+            switch (message?.command) {
                 case 'start':
                     startAdbLogcat();
                     break;
@@ -594,44 +575,61 @@ function startAdbLogcat(): void {
     
     try {
         adbProcess = cp.spawn(adbPath, args);
+        const stdoutParser = new LogcatStreamParser();
+        const stderrParser = new LogcatStreamParser();
+        const idleFlush = new IdleFlush(stdoutParser, postEntries);
         
-        panel?.webview.postMessage({ command: 'started' });
+        postMessage({ command: 'started' });
         
         adbProcess.stdout?.on('data', (data: Buffer) => {
-            panel?.webview.postMessage({ 
-                command: 'log', 
-                data: data.toString() 
-            });
+            postEntries(stdoutParser.push(data));
+            idleFlush.restart();
         });
         
         adbProcess.stderr?.on('data', (data: Buffer) => {
-            panel?.webview.postMessage({ 
-                command: 'log', 
-                data: '[ERROR] ' + data.toString() 
-            });
+            postEntries(markAsError(stderrParser.push(data)));
         });
         
         adbProcess.on('close', (code) => {
             adbProcess = null;
-            panel?.webview.postMessage({ command: 'stopped' });
+            idleFlush.cancel();
+            postEntries(stdoutParser.end());
+            postEntries(markAsError(stderrParser.end()));
+            postMessage({ command: 'stopped' });
         });
         
         adbProcess.on('error', (err) => {
             adbProcess = null;
-            panel?.webview.postMessage({ 
+            postMessage({ 
                 command: 'error', 
                 data: 'Failed to start ADB: ' + err.message 
             });
         });
         
     } catch (error) {
-        panel?.webview.postMessage({ 
+        postMessage({ 
             command: 'error', 
             data: 'Failed to start logcat: ' + error 
         });
     }
 }
 
+/**
+ * Send parsed entries to the webview
+ */
+function postEntries(entries: LogEntry[]): void {
+    if (entries.length > 0) {
+        panel?.webview.postMessage(createLogMessage(entries));
+    }
+}
+
+/**
+ * Send a message to the webview
+ */
+function postMessage(message: HostMessage): void {
+    panel?.webview.postMessage(createHostMessage(message));
+}
+
 /**
  * Stop ADB logcat process
  */
@@ -640,7 +638,7 @@ function stopAdbLogcat(): void {
         adbProcess.kill();
         adbProcess = null;
     }
-    panel?.webview.postMessage({ command: 'stopped' });
+    postMessage({ command: 'stopped' });
 }
 
 /**
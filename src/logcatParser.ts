@@ -3,6 +3,12 @@
  * Parses Android logcat output into structured log entries
  */
 
+import { StringDecoder } from 'string_decoder';
+import type { EventLogData } from './eventLogDecoder';
+
+// Quiet output this long completes a held long format entry, in ms
+const IDLE_FLUSH_DELAY = 500;
+
 export enum LogPriority {
     VERBOSE = 'V',
     DEBUG = 'D',
@@ -23,26 +29,55 @@ export interface LogEntry {
     priority?: LogPriority;
     tag?: string;
     message?: string;
+    /** Last source line of a multi-line (long format) entry */
+    endLineNumber?: number;
+    /** Sub-second part of the timestamp in nanoseconds (full usec/nsec precision) */
+    nanos?: number;
+    /** Seconds since boot, for "-v monotonic" output */
+    uptime?: number;
+    /** UTC offset from "-v zone", e.g. "+0100" */
+    timeZone?: string;
+    /** UID or user name from "-v uid" */
+    uid?: string;
+    /** Decoded fields of a binary event buffer record */
+    event?: EventLogData;
+    /** Id of the crash incident this entry belongs to */
+    crashId?: number;
+    /** Log buffer the entry came from (main, system, crash, events, ...) */
+    buffer?: string;
 }
 
-// Regex patterns for different logcat formats
-// Standard format: "MM-DD HH:MM:SS.mmm  PID  TID PRIORITY TAG: MESSAGE"
-const STANDARD_PATTERN = /^(\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}\.\d{3})\s+(\d+)\s+(\d+)\s+([VDIWEFS])\s+([^:]+):\s*(.*)$/;
+// Building blocks for the "-v" format modifiers, which may be combined:
+// year "YYYY-MM-DD", usec/nsec ".uuuuuu"/".nnnnnnnnn", epoch "SSSSSSSSSS.mmm",
+// monotonic "  SSSS.mmm", zone " +0100" and uid "u0_a123:" before the PID.
+// The printable modifier only escapes message bytes and needs no handling.
+const TIME = String.raw`(?<time>(?:\d{4}-)?\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}\.\d{3,9}|\d+\.\d{3,9})(?:\s+(?<zone>[+-]\d{4}))?`;
+const UID = String.raw`(?:(?<uid>[\w.]+)(?::\s*|\s+))?`;
+const PRIORITY = '(?<priority>[VDIWEFS])';
 
 // Threadtime format: "MM-DD HH:MM:SS.mmm  PID  TID PRIORITY TAG: MESSAGE"
-const THREADTIME_PATTERN = /^(\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}\.\d{3})\s+(\d+)\s+(\d+)\s+([VDIWEFS])\s+([^:]+):\s*(.*)$/;
+const THREADTIME_PATTERN = new RegExp(String.raw`^\s*${TIME}\s+${UID}(?<pid>\d+)\s+(?<tid>\d+)\s+${PRIORITY}\s+(?<tag>[^:]+):\s*(?<message>.*)$`);
 
 // Brief format: "PRIORITY/TAG(PID): MESSAGE"
-const BRIEF_PATTERN = /^([VDIWEFS])\/([^\(]+)\(\s*(\d+)\):\s*(.*)$/;
+const BRIEF_PATTERN = new RegExp(String.raw`^${PRIORITY}\/(?<tag>[^\(]+)\(\s*${UID}(?<pid>\d+)\):\s*(?<message>.*)$`);
 
 // Tag format: "PRIORITY/TAG: MESSAGE"
-const TAG_PATTERN = /^([VDIWEFS])\/([^:]+):\s*(.*)$/;
+const TAG_PATTERN = new RegExp(String.raw`^${PRIORITY}\/(?<tag>[^:]+):\s*(?<message>.*)$`);
 
 // Time format: "MM-DD HH:MM:SS.mmm PRIORITY/TAG(PID): MESSAGE"
-const TIME_PATTERN = /^(\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}\.\d{3})\s+([VDIWEFS])\/([^\(]+)\(\s*(\d+)\):\s*(.*)$/;
+const TIME_PATTERN = new RegExp(String.raw`^\s*${TIME}\s+${PRIORITY}\/(?<tag>[^\(]+)\(\s*${UID}(?<pid>\d+)\):\s*(?<message>.*)$`);
 
 // Long format (multi-line): "[ MM-DD HH:MM:SS.mmm  PID: TID PRIORITY/TAG ]"
-const LONG_HEADER_PATTERN = /^\[\s*(\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}\.\d{3})\s+(\d+):\s*(\d+)\s+([VDIWEFS])\/([^\s\]]+)\s*\]$/;
+const LONG_HEADER_PATTERN = new RegExp(String.raw`^\[\s*${TIME}\s+${UID}(?<pid>\d+):\s*(?<tid>\d+)\s+${PRIORITY}\/(?<tag>[^\s\]]+)\s*\]$`);
+
+// Buffer section marker: "--------- beginning of main"
+const SECTION_MARKER_PATTERN = /^-{9}\s/;
+
+// Buffer divider of "-D" output: "--------- beginning of main" / "--------- switch to system"
+const BUFFER_DIVIDER_PATTERN = /^--------- (?:beginning of|switch to) (\w+)/;
+
+// Seconds values at or above this are epoch times, below it uptime (monotonic)
+const EPOCH_THRESHOLD_SECONDS = 1e9;
 
 /**
  * Parse a single logcat line into a LogEntry
@@ -53,96 +88,325 @@ export function parseLogLine(line: string, lineNumber: number): LogEntry {
         lineNumber: lineNumber
     };
 
-    // Try standard/threadtime format first (most common)
-    let match = line.match(STANDARD_PATTERN);
-    if (match) {
-        entry.timestampStr = match[1];
-        entry.timestamp = parseTimestamp(match[1]);
-        entry.pid = parseInt(match[2], 10);
-        entry.tid = parseInt(match[3], 10);
-        entry.priority = match[4] as LogPriority;
-        entry.tag = match[5].trim();
-        entry.message = match[6];
+    // Try threadtime format first (most common), then brief, time, tag
+    // and finally the long format header whose message follows on the next lines
+    const match = line.match(THREADTIME_PATTERN)
+        || line.match(BRIEF_PATTERN)
+        || line.match(TIME_PATTERN)
+        || line.match(TAG_PATTERN)
+        || line.trimEnd().match(LONG_HEADER_PATTERN);
+
+    // Could not parse - return as raw line
+    if (!match || !match.groups) {
         return entry;
     }
 
-    // Try brief format
-    match = line.match(BRIEF_PATTERN);
-    if (match) {
-        entry.priority = match[1] as LogPriority;
-        entry.tag = match[2].trim();
-        entry.pid = parseInt(match[3], 10);
-        entry.message = match[4];
-        return entry;
+    const groups = match.groups;
+    if (groups.time) {
+        applyTimestamp(entry, groups.time, groups.zone);
+    }
+    if (groups.uid) {
+        entry.uid = groups.uid;
+    }
+    if (groups.pid) {
+        entry.pid = parseInt(groups.pid, 10);
+    }
+    if (groups.tid) {
+        entry.tid = parseInt(groups.tid, 10);
     }
+    entry.priority = groups.priority as LogPriority;
+    entry.tag = groups.tag.trim();
+    entry.message = groups.message ?? '';
+    return entry;
+}
 
-    // Try time format
-    match = line.match(TIME_PATTERN);
-    if (match) {
-        entry.timestampStr = match[1];
-        entry.timestamp = parseTimestamp(match[1]);
-        entry.priority = match[2] as LogPriority;
-        entry.tag = match[3].trim();
-        entry.pid = parseInt(match[4], 10);
-        entry.message = match[5];
-        return entry;
+/**
+ * Check whether a line is a long format entry header
+ */
+export function isLongHeader(line: string): boolean {
+    return LONG_HEADER_PATTERN.test(line.trimEnd());
+}
+
+/**
+ * Check whether a line ends the body of a long format entry
+ */
+function endsLongBody(line: string): boolean {
+    return isLongHeader(line) || SECTION_MARKER_PATTERN.test(line);
+}
+
+/**
+ * Fold the body lines of a long format entry into its header entry.
+ * Trailing blank lines are the separator between entries and are dropped.
+ */
+function foldLongBody(entry: LogEntry, bodyLines: string[]): void {
+    let end = bodyLines.length;
+    while (end > 0 && bodyLines[end - 1].trim() === '') {
+        end--;
     }
+    const body = bodyLines.slice(0, end);
 
-    // Try tag format
-    match = line.match(TAG_PATTERN);
-    if (match) {
-        entry.priority = match[1] as LogPriority;
-        entry.tag = match[2].trim();
-        entry.message = match[3];
-        return entry;
+    entry.message = body.join('\n');
+    entry.raw = [entry.raw, ...body].join('\n');
+    entry.endLineNumber = entry.lineNumber + body.length;
+}
+
+/**
+ * Incremental parser for streamed logcat output (e.g. adb stdout).
+ *
+ * Chunks may split lines (and multi-byte characters) anywhere; partial
+ * lines are buffered until their newline arrives. CRLF line endings are
+ * normalized and blank lines between entries are skipped.
+ *
+ * A long format entry is only complete once the next header arrives, so
+ * it is held back until then or until flush()/end() is called; live
+ * captures flush with IdleFlush.
+ *
+ * Entries after a buffer divider ("--------- beginning of main", or
+ * "switch to" between the buffers of "-D" output) are tagged with its
+ * buffer. With `dropDividers`, e.g. for the Logcat view, the dividers
+ * themselves are left out.
+ */
+export class LogcatStreamParser {
+    private decoder = new StringDecoder('utf8');
+    private partial = '';
+    private lineNumber = 0;
+    private pendingLong: LogEntry | null = null;
+    private pendingBody: string[] = [];
+    private buffer?: string;
+
+    constructor(private readonly dropDividers = false) {}
+
+    /**
+     * Feed a chunk of output and return the entries it completed
+     */
+    push(chunk: Buffer | string): LogEntry[] {
+        const text = this.partial + (typeof chunk === 'string' ? chunk : this.decoder.write(chunk));
+        const lines = text.split('\n');
+        this.partial = lines.pop() ?? '';
+
+        const entries: LogEntry[] = [];
+        for (const line of lines) {
+            this.pushLine(line.replace(/\r$/, ''), entries);
+        }
+        return entries;
     }
 
-    // Try long format header
-    match = line.match(LONG_HEADER_PATTERN);
-    if (match) {
-        entry.timestampStr = match[1];
-        entry.timestamp = parseTimestamp(match[1]);
-        entry.pid = parseInt(match[2], 10);
-        entry.tid = parseInt(match[3], 10);
-        entry.priority = match[4] as LogPriority;
-        entry.tag = match[5].trim();
-        return entry;
+    /**
+     * Emit a held long format entry without waiting for the next header
+     */
+    flush(): LogEntry[] {
+        const entries: LogEntry[] = [];
+        this.completeLong(entries);
+        return entries;
     }
 
-    // Could not parse - return as raw line
-    return entry;
+    /**
+     * Finish the stream, emitting any buffered partial line and held entry
+     */
+    end(): LogEntry[] {
+        const entries: LogEntry[] = [];
+        const rest = this.partial + this.decoder.end();
+        this.partial = '';
+        if (rest) {
+            this.pushLine(rest.replace(/\r$/, ''), entries);
+        }
+        this.completeLong(entries);
+        return entries;
+    }
+
+    /**
+     * Discard all buffered state and restart line numbering
+     */
+    reset(): void {
+        this.decoder = new StringDecoder('utf8');
+        this.partial = '';
+        this.lineNumber = 0;
+        this.pendingLong = null;
+        this.pendingBody = [];
+        this.buffer = undefined;
+    }
+
+    private pushLine(line: string, entries: LogEntry[]): void {
+        this.lineNumber++;
+
+        if (this.pendingLong && !endsLongBody(line)) {
+            this.pendingBody.push(line);
+            return;
+        }
+        this.completeLong(entries);
+
+        if (line.trim() === '') {
+            return;
+        }
+
+        const divider = line.match(BUFFER_DIVIDER_PATTERN);
+        if (divider) {
+            this.buffer = divider[1];
+            if (this.dropDividers) {
+                return;
+            }
+        }
+
+        const entry = parseLogLine(line, this.lineNumber);
+        if (this.buffer) {
+            entry.buffer = this.buffer;
+        }
+        if (isLongHeader(line)) {
+            this.pendingLong = entry;
+            this.pendingBody = [];
+        } else {
+            entries.push(entry);
+        }
+    }
+
+    private completeLong(entries: LogEntry[]): void {
+        if (this.pendingLong) {
+            foldLongBody(this.pendingLong, this.pendingBody);
+            entries.push(this.pendingLong);
+            this.pendingLong = null;
+            this.pendingBody = [];
+        }
+    }
 }
 
 /**
- * Parse all lines of logcat output
+ * Flushes a stream parser once its output has been quiet for a while, so
+ * the last long format entry of a burst, often the crash, shows while the
+ * device is quiet. restart() after every chunk, cancel() when it ends.
+ */
+export class IdleFlush {
+    private timer?: NodeJS.Timeout;
+
+    constructor(
+        private readonly parser: LogcatStreamParser,
+        private readonly emit: (entries: LogEntry[]) => void
+    ) {}
+
+    restart(): void {
+        this.cancel();
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            const entries = this.parser.flush();
+            if (entries.length > 0) {
+                this.emit(entries);
+            }
+        }, IDLE_FLUSH_DELAY);
+    }
+
+    cancel(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+}
+
+/**
+ * Prefix adb stderr lines so they stand out in the log
+ */
+export function markAsError(entries: LogEntry[]): LogEntry[] {
+    return entries.map(entry => ({ raw: '[ERROR] ' + entry.raw, lineNumber: entry.lineNumber }));
+}
+
+/**
+ * Parse all lines of logcat output.
+ * Long format entries are assembled from their header and body lines
+ * into a single entry with a multi-line message.
  */
 export function parseLogcat(text: string): LogEntry[] {
-    const lines = text.split('\n');
-    return lines.map((line, index) => parseLogLine(line, index + 1));
+    const parser = new LogcatStreamParser();
+    return [...parser.push(text), ...parser.end()];
+}
+
+/**
+ * Join entries back into logcat text, keeping the blank separator
+ * that follows each long format entry
+ */
+export function entriesToText(entries: LogEntry[]): string {
+    return entries
+        .map(entry => entry.endLineNumber !== undefined ? entry.raw + '\n' : entry.raw)
+        .join('\n');
+}
+
+/**
+ * Fill in the timestamp fields of an entry from its time (and zone) text
+ */
+function applyTimestamp(entry: LogEntry, timeStr: string, zone: string | undefined): void {
+    entry.timestampStr = zone ? `${timeStr} ${zone}` : timeStr;
+
+    const fraction = timeStr.slice(timeStr.lastIndexOf('.') + 1);
+    entry.nanos = parseInt(fraction.padEnd(9, '0'), 10);
+    if (zone) {
+        entry.timeZone = zone;
+    }
+
+    if (!timeStr.includes(':')) {
+        // Seconds only: epoch time or time since boot
+        const seconds = parseInt(timeStr, 10);
+        if (seconds >= EPOCH_THRESHOLD_SECONDS) {
+            entry.timestamp = new Date(seconds * 1000 + Math.floor(entry.nanos / 1e6));
+        } else {
+            entry.uptime = seconds + entry.nanos / 1e9;
+        }
+        return;
+    }
+
+    entry.timestamp = parseTimestamp(timeStr, zone);
 }
 
 /**
  * Parse timestamp string to Date object
  */
-function parseTimestamp(timestampStr: string): Date {
-    // Format: "MM-DD HH:MM:SS.mmm"
-    const currentYear = new Date().getFullYear();
+function parseTimestamp(timestampStr: string, zone?: string): Date {
+    // Format: "[YYYY-]MM-DD HH:MM:SS.fff" with 3 to 9 fraction digits
     const [datePart, timePart] = timestampStr.trim().split(/\s+/);
-    const [month, day] = datePart.split('-').map(n => parseInt(n, 10));
-    const [hours, minutes, secondsMs] = timePart.split(':');
-    const [seconds, ms] = secondsMs.split('.');
-    
+    const dateFields = datePart.split('-').map(n => parseInt(n, 10));
+    const [year, month, day] = dateFields.length === 3
+        ? dateFields
+        : [new Date().getFullYear(), ...dateFields];
+    const [hours, minutes, secondsFraction] = timePart.split(':');
+    const [seconds, fraction] = secondsFraction.split('.');
+    const ms = parseInt(fraction.slice(0, 3), 10);
+
+    if (zone) {
+        // "+HHMM" offset from UTC
+        const sign = zone.startsWith('-') ? -1 : 1;
+        const offsetMinutes = sign * (parseInt(zone.slice(1, 3), 10) * 60 + parseInt(zone.slice(3, 5), 10));
+        const utc = Date.UTC(
+            year,
+            month - 1,
+            day,
+            parseInt(hours, 10),
+            parseInt(minutes, 10),
+            parseInt(seconds, 10),
+            ms
+        );
+        return new Date(utc - offsetMinutes * 60 * 1000);
+    }
+
     return new Date(
-        currentYear,
+        year,
         month - 1,
         day,
         parseInt(hours, 10),
         parseInt(minutes, 10),
         parseInt(seconds, 10),
-        parseInt(ms, 10)
+        ms
     );
 }
 
+/**
+ * Get the time of an entry in milliseconds for ordering, using the
+ * calendar timestamp or, for monotonic output, the time since boot
+ */
+export function getEntryTime(entry: LogEntry): number | undefined {
+    if (entry.timestamp) {
+        return entry.timestamp.getTime() + (entry.nanos ?? 0) % 1e6 / 1e6;
+    }
+    if (entry.uptime !== undefined) {
+        return entry.uptime * 1000;
+    }
+    return undefined;
+}
+
 /**
  * Get priority level as a numeric value for sorting
  */
@@ -175,6 +439,10 @@ export function formatLogEntry(entry: LogEntry): string {
         parts.push(entry.timestampStr);
     }
     
+    if (entry.uid !== undefined) {
+        parts.push(`${entry.uid}:`);
+    }
+    
     if (entry.pid !== undefined) {
         parts.push(entry.pid.toString().padStart(5));
     }
@@ -0,0 +1,370 @@
+/**
+ * Logcat Protocol
+ * Messages exchanged between the extension host and the logcat webviews.
+ * Lines are parsed once in the host. The Logcat view also leaves keeping,
+ * filtering and collapsing lines to the host and asks for the rows it shows.
+ */
+
+import { LogEntry, getEntryTime } from './logcatParser';
+import type { FilterPreset } from './filterPresets';
+import type { SortColumn } from './logcatSorter';
+
+/** Bumped whenever a message changes shape */
+export const PROTOCOL_VERSION = 16;
+
+/**
+ * A parsed entry as the webviews receive it. Dates do not survive
+ * postMessage, so the timestamp is sent as its text and in ms.
+ */
+export interface ViewLogEntry {
+    raw: string;
+    lineNumber: number;
+    timestamp?: string;
+    /** Entry time in ms, see getEntryTime */
+    time?: number;
+    pid?: number;
+    tid?: number;
+    uid?: string;
+    priority?: string;
+    tag?: string;
+    message?: string;
+    crashId?: number;
+    buffer?: string;
+}
+
+/**
+ * A row of the Logcat view: a line, possibly standing for repeats of it,
+ * the header of a crash incident, or a repeat shown below its row
+ */
+export type ViewRow =
+    | { kind: 'line'; id: number; entry: ViewLogEntry; process?: string; source?: SourceLocation; bookmark?: string; matches?: TextRange[]; highlight?: number; crash?: boolean; count?: number; lastTimestamp?: string; delta?: number }
+    | { kind: 'header'; crashId: number; summary: string; expanded: boolean }
+    | { kind: 'repeat'; id: number; entry: ViewLogEntry; process?: string; source?: SourceLocation; matches?: TextRange[]; highlight?: number }
+    | { kind: 'gap' };
+
+/**
+ * How the Logcat view shows line times: as logged, since the first line,
+ * since a chosen anchor line, or since the line shown before
+ */
+export type TimeMode = 'absolute' | 'start' | 'anchor' | 'delta';
+
+export const TIME_MODES: readonly TimeMode[] = ['absolute', 'start', 'anchor', 'delta'];
+
+/**
+ * Styles of a highlight rule as CSS values; rows name the first rule they
+ * match by its index
+ */
+export interface ViewHighlightRule {
+    foreground?: string;
+    background?: string;
+    bold: boolean;
+    badge?: string;
+}
+
+/** Start and end of a find match in a line's raw text */
+export type TextRange = [number, number];
+
+/**
+ * Project file a stack frame in a line points to
+ */
+export interface SourceLocation {
+    path: string;
+    line: number;
+}
+
+export interface SortOrder {
+    column: SortColumn;
+    ascending: boolean;
+}
+
+export type TableColumn = 'time' | 'pid' | 'tid' | 'process' | 'priority' | 'tag' | 'buffer' | 'message';
+
+/**
+ * Columns of the Logcat view's table mode, in display order
+ */
+export interface TableLayout {
+    enabled: boolean;
+    columns: { id: TableColumn; width: number; hidden: boolean }[];
+}
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = {
+    enabled: false,
+    columns: [
+        { id: 'time', width: 150, hidden: false },
+        { id: 'pid', width: 56, hidden: false },
+        { id: 'tid', width: 56, hidden: false },
+        { id: 'process', width: 160, hidden: true },
+        { id: 'priority', width: 24, hidden: false },
+        { id: 'tag', width: 140, hidden: false },
+        { id: 'buffer', width: 64, hidden: true },
+        { id: 'message', width: 800, hidden: false }
+    ]
+};
+
+const SORT_COLUMNS: ReadonlySet<string> = new Set(['time', 'priority', 'tag', 'pid', 'tid']);
+
+/** Log buffers a capture can read; "all" stands for every buffer of the device */
+export const LOG_BUFFERS: readonly string[] = ['main', 'system', 'crash', 'events', 'radio', 'kernel', 'all'];
+
+/** Buffers adb logcat reads when none are given */
+export const DEFAULT_LOG_BUFFERS: readonly string[] = ['main', 'system', 'crash'];
+
+/**
+ * A tab of the Logcat view, one per device or loaded session
+ */
+export interface ViewTab {
+    id: number;
+    label: string;
+    /** Serial of the tab's device */
+    device?: string;
+    /** Log buffers it captures, or those of its loaded session */
+    buffers: string[];
+    running: boolean;
+    dedup: boolean;
+}
+
+/**
+ * A connected device the view can capture from
+ */
+export interface ViewDevice {
+    id: string;
+    name: string;
+}
+
+/**
+ * The filters of the Logcat view
+ */
+export interface LogcatFilters {
+    level: string;
+    tag: string;
+    search: string;
+    package: string;
+    query: string;
+}
+
+export const DEFAULT_FILTERS: LogcatFilters = {
+    level: 'I',
+    tag: '',
+    search: '',
+    package: '',
+    query: ''
+};
+
+/** Messages posted by the extension host */
+export type HostMessage =
+    | { command: 'log'; entries: ViewLogEntry[] }
+    | { command: 'load'; title: string; buffers: string[] }
+    | { command: 'session'; generation: number; rows: number; lines: number; visible: number; hits: number; filtering: boolean; sort?: SortOrder; scrollTo?: number; startTime?: number }
+    | { command: 'rows'; generation: number; start: number; rows: ViewRow[] }
+    | { command: 'query'; text: string; error?: string }
+    | { command: 'packages'; packages: Record<string, number[]>; running: Record<string, number[]> }
+    | { command: 'filters'; filters: LogcatFilters; preset?: string }
+    | { command: 'presets'; presets: FilterPreset[] }
+    | { command: 'layout'; layout: TableLayout }
+    | { command: 'timeMode'; mode: TimeMode; gapThreshold: number }
+    | { command: 'highlightRules'; rules: ViewHighlightRule[] }
+    | { command: 'reveal'; row: number; center?: boolean }
+    | { command: 'findMatch'; index: number; id: number }
+    | { command: 'paused'; paused: boolean; backlog: number }
+    | { command: 'tabs'; tabs: ViewTab[]; active: number }
+    | { command: 'devices'; devices: ViewDevice[] }
+    | { command: 'started' }
+    | { command: 'stopped' }
+    | { command: 'error'; data: string };
+
+/** Messages posted by a webview */
+export type WebviewMessage =
+    | { command: 'ready' }
+    | { command: 'start'; buffers: string[] }
+    | { command: 'stop' }
+    | { command: 'pause'; paused: boolean }
+    | { command: 'clear' }
+    | { command: 'getRows'; start: number; end: number; top: number }
+    | { command: 'toggleCrash'; id: number }
+    | { command: 'toggleRepeats'; id: number }
+    | { command: 'toggleBookmark'; id: number }
+    | { command: 'dedup'; enabled: boolean }
+    | { command: 'sort'; sort?: SortOrder }
+    | { command: 'layoutChanged'; layout: TableLayout }
+    | { command: 'timeMode'; mode: TimeMode }
+    | { command: 'openSource'; id: number }
+    | { command: 'find'; text: string; context?: number }
+    | { command: 'findNext'; forward: boolean }
+    | { command: 'filtersChanged'; filters: LogcatFilters; buffer: string; committed: boolean }
+    | { command: 'selectTab'; id: number }
+    | { command: 'closeTab'; id: number }
+    | { command: 'selectDevice'; device: string }
+    | { command: 'refreshDevices' };
+
+export type Versioned<T> = T & { version: number };
+
+const WEBVIEW_COMMANDS: ReadonlySet<string> = new Set([
+    'ready', 'start', 'stop', 'pause', 'clear', 'getRows', 'toggleCrash', 'toggleRepeats', 'toggleBookmark', 'dedup', 'sort', 'layoutChanged', 'timeMode', 'openSource', 'find', 'findNext', 'filtersChanged',
+    'selectTab', 'closeTab', 'selectDevice', 'refreshDevices'
+]);
+
+/**
+ * Copy the filter fields, filling in defaults for hand-edited settings
+ */
+export function toFilters(filters: Partial<LogcatFilters>): LogcatFilters {
+    return {
+        level: filters.level ?? DEFAULT_FILTERS.level,
+        tag: filters.tag ?? DEFAULT_FILTERS.tag,
+        search: filters.search ?? DEFAULT_FILTERS.search,
+        package: filters.package ?? DEFAULT_FILTERS.package,
+        query: filters.query ?? DEFAULT_FILTERS.query
+    };
+}
+
+/**
+ * Check a stored or received table layout, keeping every column once
+ */
+export function toTableLayout(value: unknown): TableLayout {
+    const layout = typeof value === 'object' && value !== null ? value as Partial<TableLayout> : {};
+    const columns: TableLayout['columns'] = [];
+    for (const column of Array.isArray(layout.columns) ? layout.columns : []) {
+        const defaults = DEFAULT_TABLE_LAYOUT.columns.find(other => other.id === column?.id);
+        if (defaults && !columns.some(other => other.id === defaults.id)) {
+            columns.push({
+                id: defaults.id,
+                width: typeof column.width === 'number' && column.width >= 16 ? Math.round(column.width) : defaults.width,
+                hidden: column.hidden === true
+            });
+        }
+    }
+    for (const column of DEFAULT_TABLE_LAYOUT.columns) {
+        if (!columns.some(other => other.id === column.id)) {
+            columns.push({ ...column });
+        }
+    }
+    return { enabled: layout.enabled === true, columns };
+}
+
+/**
+ * Keep the known buffers of a list, falling back to adb's defaults
+ */
+export function toLogBuffers(value: unknown): string[] {
+    const buffers = Array.isArray(value) ? LOG_BUFFERS.filter(buffer => value.includes(buffer)) : [];
+    if (buffers.includes('all')) {
+        return ['all'];
+    }
+    return buffers.length > 0 ? buffers : [...DEFAULT_LOG_BUFFERS];
+}
+
+/**
+ * Check a stored or received time mode
+ */
+export function toTimeMode(value: unknown): TimeMode {
+    return TIME_MODES.find(mode => mode === value) ?? 'absolute';
+}
+
+/**
+ * Convert a parsed entry into the form sent to the webviews
+ */
+export function toViewEntry(entry: LogEntry): ViewLogEntry {
+    return {
+        raw: entry.raw,
+        lineNumber: entry.lineNumber,
+        timestamp: entry.timestampStr,
+        time: getEntryTime(entry),
+        pid: entry.pid,
+        tid: entry.tid,
+        uid: entry.uid,
+        priority: entry.priority,
+        tag: entry.tag,
+        message: entry.message,
+        crashId: entry.crashId,
+        buffer: entry.buffer
+    };
+}
+
+/**
+ * Stamp a host message with the protocol version
+ */
+export function createHostMessage(message: HostMessage): Versioned<HostMessage> {
+    return { ...message, version: PROTOCOL_VERSION };
+}
+
+/**
+ * Build the 'log' message for a batch of entries
+ */
+export function createLogMessage(entries: LogEntry[]): Versioned<HostMessage> {
+    return createHostMessage({ command: 'log', entries: entries.map(toViewEntry) });
+}
+
+/**
+ * Validate a message received from a webview. Returns undefined for
+ * messages of another protocol version or with an unknown command.
+ */
+export function parseWebviewMessage(data: unknown): WebviewMessage | undefined {
+    if (typeof data !== 'object' || data === null) {
+        return undefined;
+    }
+
+    const message = data as {
+        version?: unknown; command?: unknown; buffer?: unknown; buffers?: unknown; filters?: unknown;
+        start?: unknown; end?: unknown; top?: unknown; id?: unknown; enabled?: unknown; paused?: unknown;
+        sort?: { column?: unknown; ascending?: unknown }; layout?: unknown; mode?: unknown;
+        text?: unknown; context?: unknown; forward?: unknown; device?: unknown; committed?: unknown;
+    };
+    if (message.version !== PROTOCOL_VERSION || typeof message.command !== 'string' || !WEBVIEW_COMMANDS.has(message.command)) {
+        return undefined;
+    }
+
+    const count = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : 0;
+    if (message.command === 'start') {
+        return { command: 'start', buffers: toLogBuffers(message.buffers) };
+    }
+    if (message.command === 'getRows') {
+        return { command: 'getRows', start: count(message.start), end: count(message.end), top: count(message.top) };
+    }
+    if (message.command === 'toggleCrash' || message.command === 'toggleRepeats' || message.command === 'toggleBookmark' ||
+        message.command === 'openSource' || message.command === 'selectTab' || message.command === 'closeTab') {
+        return { command: message.command, id: count(message.id) };
+    }
+    if (message.command === 'selectDevice') {
+        return typeof message.device === 'string' ? { command: 'selectDevice', device: message.device } : undefined;
+    }
+    if (message.command === 'dedup') {
+        return { command: 'dedup', enabled: message.enabled === true };
+    }
+    if (message.command === 'sort') {
+        const column = message.sort?.column;
+        return typeof column === 'string' && SORT_COLUMNS.has(column)
+            ? { command: 'sort', sort: { column: column as SortColumn, ascending: message.sort?.ascending !== false } }
+            : { command: 'sort' };
+    }
+    if (message.command === 'layoutChanged') {
+        return { command: 'layoutChanged', layout: toTableLayout(message.layout) };
+    }
+    if (message.command === 'timeMode') {
+        return { command: 'timeMode', mode: toTimeMode(message.mode) };
+    }
+    if (message.command === 'find') {
+        const context = Number.isInteger(message.context) && (message.context as number) >= 0 ? message.context as number : undefined;
+        return { command: 'find', text: typeof message.text === 'string' ? message.text : '', context };
+    }
+    if (message.command === 'pause') {
+        return { command: 'pause', paused: message.paused === true };
+    }
+    if (message.command === 'findNext') {
+        return { command: 'findNext', forward: message.forward !== false };
+    }
+    if (message.command === 'filtersChanged') {
+        const filters = typeof message.filters === 'object' && message.filters !== null ? message.filters as Record<string, unknown> : {};
+        const text = (value: unknown) => typeof value === 'string' ? value : undefined;
+        return {
+            command: 'filtersChanged',
+            filters: toFilters({
+                level: text(filters.level),
+                tag: text(filters.tag),
+                search: text(filters.search),
+                package: text(filters.package),
+                query: text(filters.query)
+            }),
+            buffer: text(message.buffer) ?? '',
+            committed: message.committed === true
+        };
+    }
+    return { command: message.command } as WebviewMessage;
+}
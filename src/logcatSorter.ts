@@ -1,93 +1,119 @@
 import * as vscode from 'vscode';
-import { LogEntry, LogPriority, parseLogcat, getPriorityLevel, formatLogEntry } from './logcatParser';
+import { LogEntry, LogPriority, parseLogcat, getPriorityLevel, formatLogEntry, entriesToText, getEntryTime } from './logcatParser';
+import { QueryContext, QueryNode, matchesQuery } from './logQuery';
+
+/** Columns entries can be sorted on */
+export type SortColumn = 'time' | 'priority' | 'tag' | 'pid' | 'tid';
+
+/** The entry fields the comparators look at; time in ms, see getEntryTime */
+export interface SortableEntry {
+    time?: number;
+    priority?: string;
+    tag?: string;
+    pid?: number;
+    tid?: number;
+}
+
+/**
+ * Compare two entries on a column. Entries without a time, PID or TID
+ * go to the end in both directions.
+ */
+export function compareEntries(a: SortableEntry, b: SortableEntry, column: SortColumn, ascending: boolean = true): number {
+    let diff: number;
+    switch (column) {
+        case 'priority':
+            diff = getPriorityLevel(a.priority as LogPriority | undefined) - getPriorityLevel(b.priority as LogPriority | undefined);
+            break;
+        case 'tag':
+            diff = (a.tag || '').localeCompare(b.tag || '');
+            break;
+        default: {
+            const valueA = a[column];
+            const valueB = b[column];
+            if (valueA === undefined && valueB === undefined) {
+                return 0;
+            }
+            if (valueA === undefined) {
+                return 1;
+            }
+            if (valueB === undefined) {
+                return -1;
+            }
+            diff = valueA - valueB;
+        }
+    }
+    return ascending ? diff : -diff;
+}
+
+/**
+ * Sort log entries on a column, keeping the order of equal ones
+ */
+function sortEntries(entries: LogEntry[], column: SortColumn, ascending: boolean): LogEntry[] {
+    return entries
+        .map(entry => ({ entry, key: { ...entry, time: getEntryTime(entry) } }))
+        .sort((a, b) => compareEntries(a.key, b.key, column, ascending))
+        .map(item => item.entry);
+}
 
 /**
  * Sort log entries by timestamp
  */
 export function sortByTime(entries: LogEntry[], ascending: boolean = true): LogEntry[] {
-    return [...entries].sort((a, b) => {
-        // Entries without timestamps go to the end
-        if (!a.timestamp && !b.timestamp) {
-            return 0;
-        }
-        if (!a.timestamp) {
-            return 1;
-        }
-        if (!b.timestamp) {
-            return -1;
-        }
-        
-        const diff = a.timestamp.getTime() - b.timestamp.getTime();
-        return ascending ? diff : -diff;
-    });
+    return sortEntries(entries, 'time', ascending);
 }
 
 /**
  * Sort log entries by priority level
  */
 export function sortByPriority(entries: LogEntry[], ascending: boolean = true): LogEntry[] {
-    return [...entries].sort((a, b) => {
-        const levelA = getPriorityLevel(a.priority);
-        const levelB = getPriorityLevel(b.priority);
-        const diff = levelA - levelB;
-        return ascending ? diff : -diff;
-    });
+    return sortEntries(entries, 'priority', ascending);
 }
 
 /**
  * Sort log entries by tag name
  */
 export function sortByTag(entries: LogEntry[], ascending: boolean = true): LogEntry[] {
-    return [...entries].sort((a, b) => {
-        const tagA = a.tag || '';
-        const tagB = b.tag || '';
-        const diff = tagA.localeCompare(tagB);
-        return ascending ? diff : -diff;
-    });
+    return sortEntries(entries, 'tag', ascending);
 }
 
 /**
- * Filter log entries by minimum priority level
+ * Sort log entries by process ID
  */
-export function filterByPriority(entries: LogEntry[], minPriority: LogPriority): LogEntry[] {
-    const minLevel = getPriorityLevel(minPriority);
-    return entries.filter(entry => {
-        const level = getPriorityLevel(entry.priority);
-        return level >= minLevel;
-    });
+export function sortByPid(entries: LogEntry[], ascending: boolean = true): LogEntry[] {
+    return sortEntries(entries, 'pid', ascending);
 }
 
 /**
- * Filter log entries by tag (supports regex)
+ * Sort log entries by thread ID
  */
-export function filterByTag(entries: LogEntry[], tagPattern: string): LogEntry[] {
-    try {
-        const regex = new RegExp(tagPattern, 'i');
-        return entries.filter(entry => entry.tag && regex.test(entry.tag));
-    } catch {
-        // If regex is invalid, do exact match
-        return entries.filter(entry => entry.tag === tagPattern);
-    }
+export function sortByTid(entries: LogEntry[], ascending: boolean = true): LogEntry[] {
+    return sortEntries(entries, 'tid', ascending);
 }
 
 /**
- * Filter log entries by PID
+ * Filter log entries by minimum priority level
  */
-export function filterByPid(entries: LogEntry[], pid: number): LogEntry[] {
-    return entries.filter(entry => entry.pid === pid);
+export function filterByPriority(entries: LogEntry[], minPriority: LogPriority): LogEntry[] {
+    const minLevel = getPriorityLevel(minPriority);
+    return entries.filter(entry => {
+        const level = getPriorityLevel(entry.priority);
+        return level >= minLevel;
+    });
 }
 
 /**
- * Filter log entries by message content (supports regex)
+ * Filter log entries with a query, see logQuery.ts.
+ * age: terms count back from the newest entry.
  */
-export function filterByMessage(entries: LogEntry[], messagePattern: string): LogEntry[] {
-    try {
-        const regex = new RegExp(messagePattern, 'i');
-        return entries.filter(entry => entry.message && regex.test(entry.message));
-    } catch {
-        // If regex is invalid, do substring match
-        return entries.filter(entry => entry.message && entry.message.includes(messagePattern));
+export function filterByQuery(entries: LogEntry[], query: QueryNode, packages: Record<string, number[]> = {}): LogEntry[] {
+    const times = entries.map(getEntryTime);
+    const context: QueryContext = { packages };
+    for (const time of times) {
+        if (time !== undefined && (context.now === undefined || time > context.now)) {
+            context.now = time;
+        }
     }
+    return entries.filter((entry, index) => matchesQuery(query, { ...entry, time: times[index] }, context));
 }
 
 /**
@@ -100,7 +126,7 @@ export async function applySortToDocument(
     const text = document.getText();
     const entries = parseLogcat(text);
     const sortedEntries = sortFn(entries);
-    const newText = sortedEntries.map(e => e.raw).join('\n');
+    const newText = entriesToText(sortedEntries);
     
     const edit = new vscode.WorkspaceEdit();
     const fullRange = new vscode.Range(
@@ -121,7 +147,7 @@ export async function applyFilterToDocument(
     const text = document.getText();
     const entries = parseLogcat(text);
     const filteredEntries = filterFn(entries);
-    const newText = filteredEntries.map(e => e.raw).join('\n');
+    const newText = entriesToText(filteredEntries);
     
     // Create a new untitled document with the filtered results
     const newDoc = await vscode.workspace.openTextDocument({
@@ -0,0 +1,821 @@
+/**
+ * Logcat Tab
+ * One session of the Logcat view: the capture of a device or a loaded log,
+ * with its own filters, find, pause state and bookmarks. The view shows
+ * one tab at a time; the others keep capturing.
+ */
+
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import { IdleFlush, LogEntry, LogcatStreamParser, markAsError } from './logcatParser';
+import { EventLogDecoder, fetchEventLogTags } from './eventLogDecoder';
+import { CrashDetector, CrashIncident, getCrashSummary } from './crashDetector';
+import { RetraceMapping, retraceEntry } from './retrace';
+import { DEFAULT_FILTERS, DEFAULT_LOG_BUFFERS, HostMessage, LogcatFilters, SourceLocation, ViewLogEntry, ViewRow, WebviewMessage, toViewEntry } from './logcatProtocol';
+import { FilterPresetStore } from './filterPresets';
+import { NoiseAnalyzer, NoiseReport } from './noiseReport';
+import { QueryError, QueryNode, getQueryPackages, parseQuery } from './logQuery';
+import { PackageTracker, ProcessNameTracker } from './packageTracker';
+import { LogBuffer } from './logBuffer';
+import { LogSession, SessionChange } from './logSession';
+import { FilterTerm, LineFilter, getTermMatches, matchesFilter, parseFilterTerms } from './logFilters';
+import { findAndroidProject } from './androidRunner';
+import { findFrameSource, parseStackFrame } from './logcatLinks';
+import { BookmarkStore, findNextBookmark, getViewSource, writeBookmarkFile } from './bookmarks';
+import { findAdbPath, getDeviceArgs } from './deviceManager';
+import { HighlightRuleStore } from './highlightRules';
+
+// Session updates are posted at most this often, in ms
+const UPDATE_INTERVAL = 50;
+
+// Lines written at a time when saving the session
+const SAVE_CHUNK = 10000;
+
+// Captures of every tab, stopped when the extension is deactivated
+const captures = new Set<cp.ChildProcess>();
+
+/**
+ * What a tab needs from the view that shows it
+ */
+export interface TabHost {
+    /** Post to the webview, if it shows this tab */
+    post(tab: LogcatTab, message: HostMessage): void;
+    /** Bring the view and this tab to the front */
+    show(tab: LogcatTab): void;
+    /** The tab started or stopped capturing */
+    stateChanged(tab: LogcatTab): void;
+    crashDetected(incident: CrashIncident): void;
+    getRetraceMapping(): RetraceMapping | undefined;
+}
+
+export class LogcatTab {
+    private _adbProcess: cp.ChildProcess | null = null;
+    private _buffers = [...DEFAULT_LOG_BUFFERS];
+    private _crashDetector = new CrashDetector();
+    private _session: LogSession;
+    private _sessionInfo?: { title: string; buffers: string[] };
+    private _updateTimer?: NodeJS.Timeout;
+    private _scrollTo?: number;
+    /** Whether the view is frozen; the session holds new lines back meanwhile */
+    private _paused = false;
+    private _backlogTimer?: NodeJS.Timeout;
+    private _packageTrackers = new Map<string, PackageTracker>();
+    private _processNames: ProcessNameTracker;
+    /** Row at the top of the view, for bookmark navigation and switching back to the tab */
+    private _viewTop = 0;
+    private _findTerms: FilterTerm[] = [];
+    /** Line of the current find match */
+    private _findId?: number;
+    private _followedPackage?: string;
+    private _filters?: LogcatFilters;
+    private _bufferFilter = '';
+    private _noiseAnalyzer = new NoiseAnalyzer();
+    /** Counts clears, as line ids then start over */
+    private _clears = 0;
+    private _queryText = '';
+    private _queryError?: string;
+    private _query?: QueryNode;
+    private _queryPackages: string[] = [];
+    /** Whether the query was entered rather than still being typed */
+    private _queryCommitted = true;
+    private _packageRefresh?: AbortController;
+
+    /** Source of the tab's bookmarks */
+    readonly bookmarkSource: string;
+
+    constructor(
+        readonly id: number,
+        private _device: string | undefined,
+        private readonly _host: TabHost,
+        private readonly _presets: FilterPresetStore,
+        private readonly _bookmarks: BookmarkStore,
+        private readonly _highlights: HighlightRuleStore,
+        private _capacity: number,
+        storagePath: string
+    ) {
+        this.bookmarkSource = getViewSource(id);
+        this._processNames = new ProcessNameTracker(_device);
+        this._session = new LogSession(
+            new LogBuffer(_capacity, storagePath, error => vscode.window.showErrorMessage(
+                `Could not write older log lines to disk, so they stay in memory: ${error.message}`)),
+            change => this._scheduleUpdate(change)
+        );
+    }
+
+    dispose(): void {
+        this.stop();
+        clearTimeout(this._updateTimer);
+        clearTimeout(this._backlogTimer);
+        this._packageRefresh?.abort();
+        this._session.dispose();
+        this._bookmarks.unload(this.bookmarkSource);
+    }
+
+    /** Serial of the device the tab captures from */
+    get device(): string | undefined {
+        return this._device;
+    }
+
+    /** Title of a loaded session */
+    get title(): string | undefined {
+        return this._sessionInfo?.title;
+    }
+
+    /** Log buffers of the loaded session, or of the current or last capture */
+    get buffers(): string[] {
+        return this._sessionInfo?.buffers ?? this._buffers;
+    }
+
+    get isRunning(): boolean {
+        return this._adbProcess !== null;
+    }
+
+    get dedup(): boolean {
+        return this._session.dedup;
+    }
+
+    /** Whether the tab neither captures nor holds lines, so it can take another device */
+    get isEmpty(): boolean {
+        return !this.isRunning && !this._sessionInfo && this._session.lineCount === 0;
+    }
+
+    /**
+     * Point an empty tab at another device
+     */
+    setDevice(device: string | undefined): void {
+        if (device === this._device || !this.isEmpty) {
+            return;
+        }
+        this._device = device;
+        this._processNames = new ProcessNameTracker(device);
+        this._packageRefresh?.abort();
+        this._packageTrackers.clear();
+        if (this._filters) {
+            this._applyFilters().catch(error => this._postFilterError(error));
+        }
+    }
+
+    setCapacity(capacity: number): void {
+        this._capacity = capacity;
+        this._session.setCapacity(capacity);
+    }
+
+    /**
+     * Handle a message of the webview while it shows this tab
+     */
+    handleMessage(message: WebviewMessage): void {
+        switch (message.command) {
+            case 'start':
+                this.start(message.buffers).catch(error => this._post({
+                    command: 'error',
+                    data: 'Failed to start logcat: ' + error
+                }));
+                break;
+            case 'stop':
+                this.stop();
+                break;
+            case 'pause':
+                this._setPaused(message.paused);
+                break;
+            case 'clear':
+                this._clearSession();
+                this._clearLogcatBuffer();
+                break;
+            case 'getRows':
+                this._viewTop = message.top;
+                this._post({
+                    command: 'rows',
+                    generation: this._session.generation,
+                    start: message.start,
+                    rows: this._session.getRows(message.start, message.end, message.top).map(row => this._decorateRow(row))
+                });
+                break;
+            case 'toggleCrash':
+                this._session.toggleCrash(message.id);
+                break;
+            case 'toggleRepeats':
+                this._session.toggleRepeats(message.id);
+                break;
+            case 'toggleBookmark': {
+                const entry = this._session.getLines(message.id, 1)[0];
+                if (entry) {
+                    this._bookmarks.toggle(this.bookmarkSource, entry.id, entry.raw);
+                }
+                break;
+            }
+            case 'dedup':
+                this._session.setDedup(message.enabled);
+                break;
+            case 'sort':
+                this._session.setSort(message.sort);
+                break;
+            case 'find':
+                this._findTerms = parseFilterTerms(message.text);
+                this._findId = undefined;
+                this._session.setFind(this._findTerms.length > 0 ? { terms: this._findTerms, context: message.context } : undefined);
+                break;
+            case 'findNext':
+                this._revealNextMatch(message.forward);
+                break;
+            case 'filtersChanged':
+                this._filters = message.filters;
+                this._bufferFilter = message.buffer;
+                this._queryCommitted = message.committed;
+                this._presets.setCurrentFilters(message.filters);
+                this._applyFilters().catch(error => this._postFilterError(error));
+                break;
+        }
+    }
+
+    /**
+     * Bring the webview up to date with the tab, after it was opened or
+     * switched to this tab. Find is not kept, since the view starts
+     * without it.
+     */
+    postState(): void {
+        if (this._findTerms.length > 0) {
+            this._findTerms = [];
+            this._findId = undefined;
+            this._session.setFind(undefined);
+        }
+        if (this._sessionInfo) {
+            this._post({ command: 'load', ...this._sessionInfo });
+        }
+        if (this._adbProcess) {
+            this._post({ command: 'started' });
+        }
+        this._scrollTo = this._viewTop;
+        this._postSession();
+        this._postPaused();
+        if (this._queryText) {
+            this._post({ command: 'query', text: this._queryText, error: this._queryError });
+        }
+        this._restoreFilters().catch(error => this._postFilterError(error));
+    }
+
+    /**
+     * Called when the session changed while the webview showed the tab
+     */
+    touch(): void {
+        this._scheduleUpdate({ rebuilt: false });
+    }
+
+    /**
+     * Capture log buffers of the tab's device. Text output has dividers
+     * between buffers, so every line is tagged with its buffer.
+     */
+    async start(buffers: string[] = [...DEFAULT_LOG_BUFFERS]): Promise<void> {
+        if (this._adbProcess) {
+            return;
+        }
+
+        const adbPath = findAdbPath();
+        // Read alone, the event buffer is decoded from its binary form;
+        // along with other buffers adb prints it as text
+        const isEvents = buffers.length === 1 && buffers[0] === 'events';
+        const args = isEvents
+            ? [...getDeviceArgs(this._device), 'logcat', '-b', 'events', '-B']
+            : [...getDeviceArgs(this._device), 'logcat', '-b', buffers.join(','), '-D', '-v', 'threadtime'];
+
+        // The binary event buffer needs the device's tag names to decode
+        const eventDecoder = isEvents ? new EventLogDecoder(await fetchEventLogTags(adbPath, getDeviceArgs(this._device))) : null;
+        if (this._adbProcess) {
+            return;
+        }
+
+        try {
+            const adbProcess = cp.spawn(adbPath, args);
+            this._adbProcess = adbProcess;
+            this._buffers = buffers;
+            captures.add(adbProcess);
+            this._crashDetector.flush();
+            const stdoutParser = eventDecoder ?? new LogcatStreamParser(true);
+            const stderrParser = new LogcatStreamParser();
+            // Binary event records are complete as they arrive
+            const idleFlush = stdoutParser instanceof LogcatStreamParser
+                ? new IdleFlush(stdoutParser, entries => this._postEntries(entries))
+                : undefined;
+
+            this._post({ command: 'started' });
+            this._host.stateChanged(this);
+            this._refreshPackages().catch(error => this._postFilterError(error));
+            this._processNames.refresh();
+
+            adbProcess.stdout?.on('data', (data: Buffer) => {
+                const entries = stdoutParser.push(data);
+                if (isEvents) {
+                    entries.forEach(entry => entry.buffer = 'events');
+                }
+                this._postEntries(entries);
+                idleFlush?.restart();
+            });
+
+            adbProcess.stderr?.on('data', (data: Buffer) => {
+                this._postEntries(markAsError(stderrParser.push(data)));
+            });
+
+            adbProcess.on('close', () => {
+                const wasCurrent = this._captureEnded(adbProcess);
+                idleFlush?.cancel();
+                this._postEntries(stdoutParser.end());
+                this._postEntries(markAsError(stderrParser.end()));
+                this._crashDetector.flush();
+                if (wasCurrent) {
+                    this._post({ command: 'stopped' });
+                }
+            });
+
+            adbProcess.on('error', (err) => {
+                this._captureEnded(adbProcess);
+                this._post({
+                    command: 'error',
+                    data: 'Failed to start ADB: ' + err.message
+                });
+            });
+
+        } catch (error) {
+            this._post({
+                command: 'error',
+                data: 'Failed to start logcat: ' + error
+            });
+        }
+    }
+
+    stop(): void {
+        const adbProcess = this._adbProcess;
+        if (adbProcess) {
+            adbProcess.kill();
+            this._captureEnded(adbProcess);
+        }
+        this._post({ command: 'stopped' });
+    }
+
+    /**
+     * Forget an ended capture; returns whether it was the tab's current one
+     */
+    private _captureEnded(adbProcess: cp.ChildProcess): boolean {
+        captures.delete(adbProcess);
+        if (this._adbProcess !== adbProcess) {
+            return false;
+        }
+        this._adbProcess = null;
+        this._host.stateChanged(this);
+        return true;
+    }
+
+    /**
+     * Show a recorded session (e.g. a bugreport) instead of live output,
+     * one entry list per log buffer
+     */
+    loadSession(title: string, buffers: Map<string, LogEntry[]>): void {
+        this.stop();
+        this._setPaused(false);
+
+        this._clearSession();
+        this._sessionInfo = { title, buffers: [...buffers.keys()] };
+        this._post({ command: 'load', ...this._sessionInfo });
+        for (const entries of buffers.values()) {
+            this._crashDetector.flush();
+            this._postEntries(entries);
+        }
+        this._crashDetector.flush();
+    }
+
+    private _clearSession(): void {
+        this._findId = undefined;
+        this._clears++;
+        this._noiseAnalyzer.reset();
+        this._processNames.clear();
+        this._bookmarks.set(this.bookmarkSource, []);
+        this._session.clear();
+        if (this._paused) {
+            this._postPaused();
+        }
+    }
+
+    /**
+     * Scroll the view to the next or previous bookmarked line it shows
+     */
+    revealNextBookmark(forward: boolean): void {
+        const shown = this._bookmarks.get(this.bookmarkSource)
+            .map(bookmark => ({ ...bookmark, line: this._session.indexOfLine(bookmark.line) }))
+            .filter(bookmark => bookmark.line >= 0)
+            .sort((a, b) => a.line - b.line);
+        const next = findNextBookmark(shown, this._viewTop, forward);
+        if (next) {
+            this._revealRow(next.line);
+        } else {
+            vscode.window.showInformationMessage('No bookmarks in this Logcat tab');
+        }
+    }
+
+    /**
+     * Scroll the view to a bookmarked line; false if filters hide it
+     */
+    revealBookmark(id: number): boolean {
+        const row = this._session.indexOfLine(id);
+        if (row < 0) {
+            return false;
+        }
+        this._revealRow(row);
+        return true;
+    }
+
+    private _revealRow(row: number): void {
+        this._viewTop = row;
+        this._host.show(this);
+        this._post({ command: 'reveal', row });
+    }
+
+    /**
+     * Scroll the view to the next or previous find match, starting from
+     * the current one or the top of the view
+     */
+    private _revealNextMatch(forward: boolean): void {
+        const current = this._findId !== undefined ? this._session.indexOfLine(this._findId) : -1;
+        const from = current >= 0 ? current : forward ? this._viewTop - 1 : this._viewTop;
+        const hit = this._session.findHit(from, forward);
+        if (hit) {
+            this._findId = hit.id;
+            this._post({ command: 'findMatch', index: hit.index + 1, id: hit.id });
+            this._post({ command: 'reveal', row: hit.row, center: true });
+        }
+    }
+
+    /**
+     * Save every line of the session to a file, with its bookmarks next to it
+     */
+    async saveSession(): Promise<void> {
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(`logcat-${Date.now()}.logcat`),
+            filters: {
+                'Logcat Files': ['logcat', 'log', 'txt'],
+                'All Files': ['*']
+            }
+        });
+        if (!uri) {
+            return;
+        }
+
+        try {
+            // File line of each bookmarked line id; a line may span several
+            const bookmarks = this._bookmarks.get(this.bookmarkSource);
+            const fileLines = new Map(bookmarks.map(bookmark => [bookmark.line, 0]));
+            let fileLine = 0;
+
+            const file = await fs.promises.open(uri.fsPath, 'w');
+            try {
+                for (let id = 1; ; id += SAVE_CHUNK) {
+                    const lines = this._session.getLines(id, SAVE_CHUNK);
+                    if (lines.length === 0) {
+                        break;
+                    }
+                    for (const line of lines) {
+                        if (fileLines.has(line.id)) {
+                            fileLines.set(line.id, fileLine);
+                        }
+                        fileLine += line.raw.split(/\r\n|\r|\n/).length;
+                    }
+                    await file.write(lines.map(line => line.raw + '\n').join(''));
+                }
+            } finally {
+                await file.close();
+            }
+            await writeBookmarkFile(uri.fsPath, bookmarks.map(bookmark => ({ ...bookmark, line: fileLines.get(bookmark.line)! })));
+            vscode.window.showInformationMessage(`Saved to ${uri.fsPath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save session: ${error}`);
+        }
+    }
+
+    private _postEntries(entries: LogEntry[]): void {
+        if (entries.length === 0) {
+            return;
+        }
+        const processed = this._processEntries(entries);
+        // Examples of the noise report point to line ids
+        const firstId = this._session.nextId;
+        processed.forEach((entry, index) => this._noiseAnalyzer.push(entry, firstId + index));
+        this._session.append(processed.map(toViewEntry));
+        if (this._paused && !this._backlogTimer) {
+            this._backlogTimer = setTimeout(() => {
+                this._backlogTimer = undefined;
+                this._postPaused();
+            }, UPDATE_INTERVAL);
+        }
+    }
+
+    /**
+     * Freeze the view while capture goes on, or add the lines captured
+     * meanwhile and let it catch up
+     */
+    private _setPaused(paused: boolean): void {
+        this._paused = paused;
+        if (paused) {
+            this._session.hold();
+        } else {
+            this._session.release();
+        }
+        this._postPaused();
+    }
+
+    private _postPaused(): void {
+        this._post({ command: 'paused', paused: this._paused, backlog: this._session.heldCount });
+    }
+
+    /**
+     * Tell the view about new rows, at most every UPDATE_INTERVAL ms; it
+     * then asks for the rows it shows
+     */
+    private _scheduleUpdate(change: SessionChange): void {
+        if (change.rebuilt) {
+            this._scrollTo = change.scrollTo;
+        }
+        if (!this._updateTimer) {
+            this._updateTimer = setTimeout(() => {
+                this._updateTimer = undefined;
+                this._postSession();
+            }, UPDATE_INTERVAL);
+        }
+    }
+
+    private _postSession(): void {
+        this._post({
+            command: 'session',
+            generation: this._session.generation,
+            rows: this._session.rowCount,
+            lines: this._session.lineCount,
+            visible: this._session.visibleCount,
+            hits: this._session.hitCount,
+            filtering: this._session.filtering,
+            sort: this._session.sort,
+            scrollTo: this._scrollTo,
+            startTime: this._session.startTime
+        });
+        this._scrollTo = undefined;
+    }
+
+    /**
+     * Find the project file of the stack frame in a line of the session
+     */
+    getSource(id: number): SourceLocation | undefined {
+        const entry = this._session.getLines(id, 1)[0];
+        return entry && findSource(entry);
+    }
+
+    /**
+     * Name the process of a line for the table's process column, find
+     * the project file of a stack frame in it, and mark bookmarks, find
+     * matches and the highlight rule it matches
+     */
+    private _decorateRow(row: ViewRow): ViewRow {
+        if (row.kind !== 'line' && row.kind !== 'repeat') {
+            return row;
+        }
+        const process = this._processNames.get(row.entry.pid);
+        const source = findSource(row.entry);
+        const matches = this._findTerms.length > 0 && matchesFilter(row.entry.raw, this._findTerms)
+            ? getTermMatches(row.entry.raw, this._findTerms)
+            : [];
+        const rule = this._highlights.findRule(row.entry);
+        const highlight = rule >= 0 ? rule : undefined;
+        const decorated = process || source || matches.length > 0 || highlight !== undefined
+            ? { ...row, process, source, matches: matches.length > 0 ? matches : undefined, highlight }
+            : row;
+        const bookmark = row.kind === 'line' ? this._bookmarks.find(this.bookmarkSource, row.id) : undefined;
+        return decorated.kind === 'line' && bookmark ? { ...decorated, bookmark: bookmark.note } : decorated;
+    }
+
+    /**
+     * Retrace entries and group crash lines so the view can collapse them into one record
+     */
+    private _processEntries(entries: LogEntry[]): LogEntry[] {
+        const mapping = this._host.getRetraceMapping();
+        if (mapping) {
+            entries = entries.map(entry => retraceEntry(entry, mapping));
+        }
+
+        const touched = new Set<CrashIncident>();
+        let packagesChanged = false;
+        for (const entry of entries) {
+            this._processNames.observe(entry);
+
+            // Keep following apps across crashes and relaunches
+            for (const tracker of this._packageTrackers.values()) {
+                packagesChanged = tracker.observe(entry) || packagesChanged;
+            }
+
+            const incident = this._crashDetector.push(entry);
+            if (incident) {
+                entry.crashId = incident.id;
+                touched.add(incident);
+            }
+        }
+
+        touched.forEach(incident => {
+            this._session.updateCrash(incident.id, getCrashSummary(incident));
+            this._host.crashDetected(incident);
+        });
+
+        if (packagesChanged) {
+            this._post({ command: 'packages', ...this._getPackagePids() });
+            this._session.setFilter(this._getLineFilter());
+        }
+
+        return entries;
+    }
+
+    /**
+     * Apply the view's filters to the session. A query that does not parse
+     * is reported and the previous one stays in effect.
+     */
+    private async _applyFilters(): Promise<void> {
+        const filters = this.getFilters();
+
+        if (filters.query !== this._queryText) {
+            this._queryText = filters.query;
+            this._queryError = undefined;
+            try {
+                this._query = parseQuery(filters.query);
+                this._queryPackages = getQueryPackages(this._query);
+            } catch (error) {
+                if (!(error instanceof QueryError)) {
+                    throw error;
+                }
+                this._queryError = error.message;
+            }
+            this._post({ command: 'query', text: filters.query, error: this._queryError });
+        }
+
+        if (filters.package !== (this._followedPackage ?? '')) {
+            this._followedPackage = filters.package || undefined;
+        }
+
+        if (!await this._updatePackageTrackers()) {
+            return;
+        }
+        this._post({ command: 'packages', ...this._getPackagePids() });
+        this._session.setFilter(this._getLineFilter());
+    }
+
+    private _postFilterError(error: unknown): void {
+        this._post({
+            command: 'error',
+            data: 'Failed to apply filters: ' + (error instanceof Error ? error.message : error)
+        });
+    }
+
+    private _getLineFilter(): LineFilter {
+        const filters = this.getFilters();
+        const followed = this._followedPackage ? this._packageTrackers.get(this._followedPackage) : undefined;
+        return {
+            level: filters.level,
+            tag: filters.tag,
+            search: filters.search,
+            buffer: this._bufferFilter,
+            pids: this._followedPackage ? [...followed?.pids ?? []] : undefined,
+            query: this._query,
+            packages: this._getPackagePids().packages
+        };
+    }
+
+    /**
+     * Get template statistics of the lines shown since the tab was last
+     * cleared, and a function that scrolls the view to lines of the report
+     * until the tab is cleared again
+     */
+    getNoiseReport(): { report: NoiseReport; revealLines: (ids: number[]) => boolean } {
+        const clears = this._clears;
+        return {
+            report: this._noiseAnalyzer.getReport(),
+            revealLines: ids => clears === this._clears && this._revealFirstLine(ids)
+        };
+    }
+
+    /**
+     * Scroll the view to the first of some lines it shows; false if it
+     * shows none
+     */
+    private _revealFirstLine(ids: number[]): boolean {
+        for (const id of ids) {
+            const row = this._session.indexOfLine(id);
+            if (row >= 0) {
+                this._viewTop = row;
+                this._host.show(this);
+                this._post({ command: 'reveal', row, center: true });
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Get the filters the tab currently shows
+     */
+    getFilters(): LogcatFilters {
+        return this._filters ?? DEFAULT_FILTERS;
+    }
+
+    /**
+     * Restore the filters of the last session, following the workspace's
+     * app the first time
+     */
+    private async _restoreFilters(): Promise<void> {
+        if (!this._filters) {
+            const project = await findAndroidProject(false);
+            this._filters = this._presets.getCurrentFilters()
+                ?? { ...DEFAULT_FILTERS, package: project?.packageName ?? '' };
+        }
+        this._post({ command: 'filters', filters: this._filters });
+    }
+
+    /**
+     * Track the followed package and the packages named in the query. While
+     * the query is typed, only packages already seen are looked up, so each
+     * prefix of a name does not ask the device. Returns false if a later
+     * update replaced this one.
+     */
+    private async _updatePackageTrackers(): Promise<boolean> {
+        const wanted = new Set(this._queryPackages.filter(packageName => this._queryCommitted
+            || this._packageTrackers.has(packageName) || this._processNames.hasPackage(packageName)));
+        if (this._followedPackage) {
+            wanted.add(this._followedPackage);
+        }
+
+        for (const packageName of this._packageTrackers.keys()) {
+            if (!wanted.has(packageName)) {
+                this._packageTrackers.delete(packageName);
+            }
+        }
+
+        for (const packageName of wanted) {
+            if (!this._packageTrackers.has(packageName)) {
+                this._packageTrackers.set(packageName, new PackageTracker(packageName, this._device));
+            }
+        }
+
+        // Lookups of an earlier update are stale; their trackers are looked up again
+        this._packageRefresh?.abort();
+        const refresh = new AbortController();
+        this._packageRefresh = refresh;
+        const pending = [...this._packageTrackers.values()].filter(tracker => !tracker.refreshed);
+        await Promise.all(pending.map(tracker => tracker.refresh(refresh.signal)));
+        return !refresh.signal.aborted;
+    }
+
+    /**
+     * Re-read the PIDs of all tracked packages from the device
+     */
+    private async _refreshPackages(): Promise<void> {
+        await Promise.all([...this._packageTrackers.values()].map(tracker => tracker.refresh()));
+        this._post({ command: 'packages', ...this._getPackagePids() });
+        this._session.setFilter(this._getLineFilter());
+    }
+
+    private _getPackagePids(): { packages: Record<string, number[]>; running: Record<string, number[]> } {
+        const packages: Record<string, number[]> = {};
+        const running: Record<string, number[]> = {};
+        for (const [packageName, tracker] of this._packageTrackers) {
+            packages[packageName] = [...tracker.pids];
+            running[packageName] = [...tracker.runningPids];
+        }
+        return { packages, running };
+    }
+
+    private _post(message: HostMessage): void {
+        this._host.post(this, message);
+    }
+
+    private _clearLogcatBuffer(): void {
+        if (this._sessionInfo) {
+            return;
+        }
+        const adbPath = findAdbPath();
+        cp.execFile(adbPath, [...getDeviceArgs(this._device), 'logcat', '-b', this._buffers.join(','), '-c'], (error) => {
+            if (error) {
+                this._post({
+                    command: 'error',
+                    data: 'Failed to clear logcat buffer'
+                });
+            }
+        });
+    }
+}
+
+/**
+ * Find the project file of the stack frame in a line
+ */
+function findSource(entry: ViewLogEntry): SourceLocation | undefined {
+    const frame = parseStackFrame(entry.message ?? entry.raw);
+    const sourcePath = frame && findFrameSource(frame.className, frame.fileName);
+    return frame && sourcePath ? { path: sourcePath, line: frame.line } : undefined;
+}
+
+/**
+ * Stop the captures of all tabs
+ */
+export function stopCaptures(): void {
+    captures.forEach(adbProcess => adbProcess.kill());
+    captures.clear();
+}
@@ -1,44 +1,90 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
-import * as fs from 'fs';
-import * as path from 'path';
+import { LogEntry } from './logcatParser';
+import { CrashIncident } from './crashDetector';
+import { RetraceMapping } from './retrace';
+import { DEFAULT_LOG_BUFFERS, DEFAULT_TABLE_LAYOUT, HostMessage, LOG_BUFFERS, LogcatFilters, PROTOCOL_VERSION, ViewTab, createHostMessage, parseWebviewMessage, toTableLayout, toTimeMode } from './logcatProtocol';
+import { FilterPresetStore } from './filterPresets';
+import { NoiseReport } from './noiseReport';
+import { BookmarkStore, getViewTab } from './bookmarks';
+import { getConnectedDevices } from './deviceManager';
+import { LogcatTab, TabHost, stopCaptures } from './logcatTab';
+import { HighlightRuleStore, toViewHighlightRule } from './highlightRules';
 
-let adbProcess: cp.ChildProcess | null = null;
+/** Height of one row in the Logcat view, in px */
+const ROW_HEIGHT = 18;
 
-/**
- * Find ADB executable path
- */
-function findAdbPath(): string {
-    const config = vscode.workspace.getConfiguration('logcat-viewer');
-    const configuredPath = config.get<string>('adbPath', 'adb');
-    
-    if (configuredPath && configuredPath !== 'adb') {
-        return configuredPath;
-    }
-    
-    const commonPaths = [
-        '/opt/android-sdk/platform-tools/adb',
-        '/usr/bin/adb',
-        '/usr/local/bin/adb',
-        path.join(process.env.HOME || '', 'Android/Sdk/platform-tools/adb'),
-        path.join(process.env.ANDROID_HOME || '', 'platform-tools/adb'),
-        path.join(process.env.ANDROID_SDK_ROOT || '', 'platform-tools/adb'),
-    ];
-    
-    for (const p of commonPaths) {
-        if (p && fs.existsSync(p)) {
-            return p;
-        }
-    }
-    
-    return 'adb';
-}
+const TABLE_LAYOUT_KEY = 'logcat-viewer.tableLayout';
+const TIME_MODE_KEY = 'logcat-viewer.timeMode';
 
 export class LogcatViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'logcatView';
     private _view?: vscode.WebviewView;
+    private _retraceMapping?: RetraceMapping;
+    private _isReady = false;
+    private _configListener: vscode.Disposable;
+    private _tabs: LogcatTab[] = [];
+    /** Tab the view shows */
+    private _activeTab: LogcatTab;
+    private _nextTabId = 1;
+    /** Device chosen in the Devices view, for tabs without one */
+    private _defaultDevice?: string;
+    /** Names of the connected devices by serial */
+    private _devices = new Map<string, string>();
+
+    private _onDidDetectCrash = new vscode.EventEmitter<CrashIncident>();
+    /** Fires when a crash incident is found or gains more lines */
+    readonly onDidDetectCrash = this._onDidDetectCrash.event;
+
+    private readonly _tabHost: TabHost = {
+        post: (tab, message) => {
+            if (tab === this._activeTab) {
+                this._post(message);
+            }
+        },
+        show: tab => {
+            if (tab !== this._activeTab) {
+                this._selectTab(tab);
+            }
+            this._view?.show(true);
+        },
+        stateChanged: () => this._postTabs(),
+        crashDetected: incident => this._onDidDetectCrash.fire(incident),
+        getRetraceMapping: () => this._retraceMapping
+    };
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _presets: FilterPresetStore,
+        private readonly _state: vscode.Memento,
+        private readonly _bookmarks: BookmarkStore,
+        private readonly _highlights: HighlightRuleStore,
+        private readonly _storagePath: string
+    ) {
+        _presets.onDidChange(() => this._postPresets());
+        _highlights.onDidChange(() => {
+            this._postHighlightRules();
+            this._tabs.forEach(tab => tab.touch());
+        });
+        _bookmarks.onDidChange(source => {
+            const tabId = getViewTab(source);
+            this._tabs.find(tab => tab.id === tabId)?.touch();
+        });
+
+        this._activeTab = this._createTab(undefined);
+        this._configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('logcat-viewer.bufferCapacity')) {
+                this._tabs.forEach(tab => tab.setCapacity(getBufferCapacity()));
+            }
+            if (event.affectsConfiguration('logcat-viewer.timeGapThreshold')) {
+                this._postTimeMode();
+            }
+        });
+    }
 
-    constructor(private readonly _extensionUri: vscode.Uri) {}
+    dispose(): void {
+        this._configListener.dispose();
+        this._tabs.forEach(tab => tab.dispose());
+    }
 
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
@@ -55,92 +101,264 @@ export class LogcatViewProvider implements vscode.WebviewViewProvider {
         webviewView.webview.html = this._getHtmlForWebview();
 
         // Handle messages from the webview
-        webviewView.webview.onDidReceiveMessage(message => {
+        webviewView.webview.onDidReceiveMessage(data => {
+            const message = parseWebviewMessage(data);
+            if (!message) {
+                return;
+            }
+
             switch (message.command) {
-                case 'start':
-                    this._startAdbLogcat();
+                case 'ready':
+                    // The tabs outlive the webview, so a new one picks up where the last left off
+                    this._isReady = true;
+                    this._postTabs();
+                    this._post({ command: 'layout', layout: toTableLayout(this._state.get(TABLE_LAYOUT_KEY)) });
+                    this._postTimeMode();
+                    this._postHighlightRules();
+                    this._postPresets();
+                    this._activeTab.postState();
+                    this.refreshDevices();
+                    break;
+                case 'layoutChanged':
+                    this._state.update(TABLE_LAYOUT_KEY, message.layout);
+                    break;
+                case 'timeMode':
+                    this._state.update(TIME_MODE_KEY, message.mode);
+                    break;
+                case 'openSource':
+                    this._openSource(message.id);
+                    break;
+                case 'selectTab': {
+                    const tab = this._tabs.find(tab => tab.id === message.id);
+                    if (tab && tab !== this._activeTab) {
+                        this._selectTab(tab);
+                    }
+                    break;
+                }
+                case 'closeTab':
+                    this._closeTab(message.id);
+                    break;
+                case 'selectDevice':
+                    this._selectDevice(message.device);
                     break;
-                case 'stop':
-                    this._stopAdbLogcat();
+                case 'refreshDevices':
+                    this.refreshDevices();
                     break;
-                case 'clear':
-                    this._clearLogcatBuffer();
+                default:
+                    this._activeTab.handleMessage(message);
                     break;
             }
         });
 
-        // Stop capture when view is disposed
+        // Capture goes on into the tabs while the view is closed
         webviewView.onDidDispose(() => {
-            this._stopAdbLogcat();
+            this._isReady = false;
+            this._view = undefined;
         });
     }
 
-    private _startAdbLogcat(): void {
-        if (adbProcess) {
+    private _createTab(device: string | undefined): LogcatTab {
+        const tab = new LogcatTab(this._nextTabId++, device, this._tabHost, this._presets, this._bookmarks, this._highlights, getBufferCapacity(), this._storagePath);
+        this._tabs.push(tab);
+        return tab;
+    }
+
+    private _selectTab(tab: LogcatTab): void {
+        this._activeTab = tab;
+        this._postTabs();
+        tab.postState();
+    }
+
+    /**
+     * Stop and drop a tab; the last one stays
+     */
+    private _closeTab(id: number): void {
+        const index = this._tabs.findIndex(tab => tab.id === id);
+        if (index < 0 || this._tabs.length === 1) {
             return;
         }
+        const [tab] = this._tabs.splice(index, 1);
+        tab.dispose();
+        if (tab === this._activeTab) {
+            this._selectTab(this._tabs[Math.min(index, this._tabs.length - 1)]);
+        } else {
+            this._postTabs();
+        }
+    }
 
-        const adbPath = findAdbPath();
-        const args = ['logcat', '-v', 'threadtime'];
+    /**
+     * Show the tab of a device, opening one unless the current tab is
+     * still empty and can take the device
+     */
+    private _selectDevice(device: string): void {
+        if (!device) {
+            return;
+        }
+        const existing = this._tabs.find(tab => tab.device === device && !tab.title);
+        if (existing) {
+            if (existing !== this._activeTab) {
+                this._selectTab(existing);
+            }
+        } else if (this._activeTab.isEmpty) {
+            this._activeTab.setDevice(device);
+            this._postTabs();
+        } else {
+            this._selectTab(this._createTab(device));
+        }
+    }
 
-        try {
-            adbProcess = cp.spawn(adbPath, args);
+    /**
+     * Use a device for tabs that have none yet, e.g. the one chosen in the
+     * Devices view
+     */
+    public setDefaultDevice(device: string | undefined): void {
+        this._defaultDevice = device;
+        if (device && this._activeTab.isEmpty) {
+            this._activeTab.setDevice(device);
+            this._postTabs();
+        }
+    }
 
-            this._view?.webview.postMessage({ command: 'started' });
+    /**
+     * Update the view's device list; an empty tab without a device gets
+     * the default one, or the first one connected
+     */
+    public async refreshDevices(): Promise<void> {
+        const devices = await getConnectedDevices();
+        this._devices = new Map(devices.map(device => [device.id, device.name]));
 
-            adbProcess.stdout?.on('data', (data: Buffer) => {
-                this._view?.webview.postMessage({
-                    command: 'log',
-                    data: data.toString()
-                });
-            });
+        const fallback = this._defaultDevice && this._devices.has(this._defaultDevice) ? this._defaultDevice : devices[0]?.id;
+        if (!this._activeTab.device && this._activeTab.isEmpty) {
+            this._activeTab.setDevice(fallback);
+        }
+        this._post({ command: 'devices', devices: devices.map(device => ({ id: device.id, name: device.name })) });
+        this._postTabs();
+    }
 
-            adbProcess.stderr?.on('data', (data: Buffer) => {
-                this._view?.webview.postMessage({
-                    command: 'log',
-                    data: '[ERROR] ' + data.toString()
-                });
-            });
+    private _postTabs(): void {
+        const tabs: ViewTab[] = this._tabs.map(tab => ({
+            id: tab.id,
+            label: this._getTabLabel(tab),
+            device: tab.device,
+            buffers: tab.buffers,
+            running: tab.isRunning,
+            dedup: tab.dedup
+        }));
+        this._post({ command: 'tabs', tabs, active: this._activeTab.id });
+    }
 
-            adbProcess.on('close', (code) => {
-                adbProcess = null;
-                this._view?.webview.postMessage({ command: 'stopped' });
-            });
+    private _getTabLabel(tab: LogcatTab): string {
+        return tab.title ?? (tab.device ? this._devices.get(tab.device) ?? tab.device : 'Logcat');
+    }
 
-            adbProcess.on('error', (err) => {
-                adbProcess = null;
-                this._view?.webview.postMessage({
-                    command: 'error',
-                    data: 'Failed to start ADB: ' + err.message
-                });
-            });
+    /**
+     * Get the label of a tab, for its bookmarks
+     */
+    public getTabLabel(tabId: number): string | undefined {
+        const tab = this._tabs.find(tab => tab.id === tabId);
+        return tab && this._getTabLabel(tab);
+    }
 
-        } catch (error) {
-            this._view?.webview.postMessage({
-                command: 'error',
-                data: 'Failed to start logcat: ' + error
-            });
+    /**
+     * Set the mapping used to de-obfuscate stack traces in new lines
+     */
+    public setRetraceMapping(mapping: RetraceMapping | undefined): void {
+        this._retraceMapping = mapping;
+    }
+
+    /**
+     * Show a recorded session (e.g. a bugreport) in its own tab instead of
+     * live output, one entry list per log buffer
+     */
+    public loadSession(title: string, buffers: Map<string, LogEntry[]>): void {
+        const tab = this._activeTab.isEmpty ? this._activeTab : this._createTab(undefined);
+        tab.setDevice(undefined);
+        tab.loadSession(title, buffers);
+        this._selectTab(tab);
+    }
+
+    /**
+     * Scroll the view to the next or previous bookmarked line of its tab
+     */
+    public revealNextBookmark(forward: boolean): void {
+        this._activeTab.revealNextBookmark(forward);
+    }
+
+    /**
+     * Show a tab and scroll to a bookmarked line; false if filters hide it
+     */
+    public revealBookmark(tabId: number, id: number): boolean {
+        return this._tabs.find(tab => tab.id === tabId)?.revealBookmark(id) ?? false;
+    }
+
+    /**
+     * Save every line of the shown tab to a file, with its bookmarks next to it
+     */
+    public saveSession(): Promise<void> {
+        return this._activeTab.saveSession();
+    }
+
+    /**
+     * Get template statistics of the lines the shown tab captured since it
+     * was last cleared, and a function that scrolls the tab to lines of
+     * the report while it is open
+     */
+    public getNoiseReport(): { report: NoiseReport; revealLines: (ids: number[]) => boolean } {
+        const tab = this._activeTab;
+        const { report, revealLines } = tab.getNoiseReport();
+        return { report, revealLines: ids => this._tabs.includes(tab) && revealLines(ids) };
+    }
+
+    /**
+     * Get the filters the view currently shows
+     */
+    public getFilters(): LogcatFilters {
+        return this._activeTab.getFilters();
+    }
+
+    /**
+     * Switch the view to a saved preset
+     */
+    public showPreset(name: string): void {
+        const preset = this._presets.getPreset(name);
+        if (preset) {
+            this._post({ command: 'filters', filters: preset, preset: name });
         }
     }
 
-    private _stopAdbLogcat(): void {
-        if (adbProcess) {
-            adbProcess.kill();
-            adbProcess = null;
+    private _postPresets(): void {
+        this._post({ command: 'presets', presets: this._presets.getPresets() });
+    }
+
+    private _postHighlightRules(): void {
+        this._post({ command: 'highlightRules', rules: this._highlights.rules.map(toViewHighlightRule) });
+    }
+
+    private _postTimeMode(): void {
+        this._post({ command: 'timeMode', mode: toTimeMode(this._state.get(TIME_MODE_KEY)), gapThreshold: getTimeGapThreshold() });
+    }
+
+    /**
+     * Open the project file of the stack frame in a line of the active tab
+     */
+    private async _openSource(id: number): Promise<void> {
+        const source = this._activeTab.getSource(id);
+        if (!source) {
+            return;
+        }
+        try {
+            const position = new vscode.Position(source.line - 1, 0);
+            await vscode.window.showTextDocument(vscode.Uri.file(source.path), {
+                viewColumn: vscode.ViewColumn.One,
+                selection: new vscode.Range(position, position)
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not open ${source.path}: ${error}`);
         }
-        this._view?.webview.postMessage({ command: 'stopped' });
     }
 
-    private _clearLogcatBuffer(): void {
-        const adbPath = findAdbPath();
-        cp.exec(`${adbPath} logcat -c`, (error) => {
-            if (error) {
-                this._view?.webview.postMessage({
-                    command: 'error',
-                    data: 'Failed to clear logcat buffer'
-                });
-            }
-        });
+    private _post(message: HostMessage): void {
+        this._view?.webview.postMessage(createHostMessage(message));
     }
 
     private _getHtmlForWebview(): string {
@@ -217,6 +435,28 @@ export class LogcatViewProvider implements vscode.WebviewViewProvider {
             min-width: 70px;
         }
         
+        input.package-filter {
+            flex: 0 1 140px;
+        }
+        
+        .package-status {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
+        
+        input.invalid {
+            border-color: var(--vscode-inputValidation-errorBorder);
+        }
+        
+        .query-error {
+            display: none;
+            width: 100%;
+            padding: 2px 6px;
+            font-size: 11px;
+            color: var(--vscode-errorForeground);
+        }
+        
         button {
             background: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
@@ -273,6 +513,53 @@ export class LogcatViewProvider implements vscode.WebviewViewProvider {
             animation: pulse 1.5s infinite;
         }
         
+        .tab-strip {
+            display: flex;
+            gap: 2px;
+            width: 100%;
+            overflow-x: auto;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        
+        .tab {
+            display: flex;
+            align-items: center;
+            gap: 5px;
+            padding: 2px 8px;
+            font-size: 11px;
+            white-space: nowrap;
+            cursor: pointer;
+            color: var(--vscode-tab-inactiveForeground, var(--vscode-descriptionForeground));
+            border-bottom: 2px solid transparent;
+        }
+        
+        .tab.active {
+            color: var(--vscode-tab-activeForeground, var(--vscode-foreground));
+            border-bottom-color: var(--vscode-focusBorder);
+        }
+        
+        .tab-close {
+            opacity: 0.6;
+        }
+        
+        .tab-close:hover {
+            opacity: 1;
+        }
+        
+        .status-dot.paused {
+            background: #cca700;
+        }
+        
+        .backlog-badge {
+            padding: 1px 6px;
+            border-radius: 8px;
+            font-size: 11px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            cursor: pointer;
+            white-space: nowrap;
+        }
+        
         @keyframes pulse {
             0%, 100% { opacity: 1; }
             50% { opacity: 0.5; }
@@ -280,29 +567,227 @@ export class LogcatViewProvider implements vscode.WebviewViewProvider {
         
         .log-container {
             flex: 1;
-            overflow-y: auto;
-            overflow-x: hidden;
+            overflow: auto;
+            position: relative;
             font-family: var(--vscode-editor-font-family, monospace);
             font-size: 12px;
-            line-height: 1.35;
+        }
+        
+        .log-content {
+            position: relative;
+            min-width: 100%;
+        }
+        
+        .log-rows {
+            position: absolute;
+            top: 0;
+            left: 0;
+            min-width: 100%;
         }
         
         .log-line {
-            padding: 1px 8px;
-            white-space: pre-wrap;
-            word-break: break-all;
+            position: relative;
+            height: ${ROW_HEIGHT}px;
+            line-height: ${ROW_HEIGHT}px;
+            padding: 0 8px;
+            white-space: pre;
         }
         
         .log-line:hover {
             background: var(--vscode-list-hoverBackground);
         }
         
-        .log-line.V { color: #808080; }
-        .log-line.D { color: #4fc1ff; }
-        .log-line.I { color: #4ec9b0; }
-        .log-line.W { color: #dcdcaa; }
-        .log-line.E { color: #f44747; }
-        .log-line.F { color: #ff00ff; font-weight: bold; }
+        .log-line.V { color: var(--vscode-logcat-verboseForeground, #808080); }
+        .log-line.D { color: var(--vscode-logcat-debugForeground, #4fc1ff); }
+        .log-line.I { color: var(--vscode-logcat-infoForeground, #4ec9b0); }
+        .log-line.W { color: var(--vscode-logcat-warningForeground, #dcdcaa); }
+        .log-line.E { color: var(--vscode-logcat-errorForeground, #f44747); }
+        .log-line.F { color: var(--vscode-logcat-fatalForeground, #ff00ff); font-weight: bold; }
+        
+        .log-line.crash-header {
+            cursor: pointer;
+            color: var(--vscode-errorForeground, #f44747);
+            font-weight: bold;
+            background: var(--vscode-inputValidation-errorBackground, rgba(244, 71, 71, 0.1));
+        }
+        
+        .log-line.crash-member {
+            border-left: 2px solid var(--vscode-errorForeground, #f44747);
+        }
+        
+        .repeat-count {
+            display: inline-block;
+            margin-right: 6px;
+            padding: 0 4px;
+            border-radius: 8px;
+            cursor: pointer;
+            font-size: 10px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        
+        .highlight-badge {
+            display: inline-block;
+            margin-right: 6px;
+            padding: 0 4px;
+            border-radius: 2px;
+            font-size: 10px;
+            font-weight: normal;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        
+        .bookmark-toggle {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 8px;
+            font-size: 8px;
+            text-align: center;
+            cursor: pointer;
+            opacity: 0;
+            color: var(--vscode-editorInfo-foreground, #3794ff);
+        }
+        
+        .log-line:hover .bookmark-toggle {
+            opacity: 0.6;
+        }
+        
+        .log-line.bookmarked {
+            background: var(--vscode-editor-rangeHighlightBackground);
+        }
+        
+        .log-line.bookmarked .bookmark-toggle {
+            opacity: 1;
+        }
+        
+        .bookmark-note {
+            margin-left: 8px;
+            font-style: italic;
+            color: var(--vscode-editorCodeLens-foreground, var(--vscode-descriptionForeground));
+        }
+        
+        mark.find-match {
+            color: inherit;
+            background: var(--vscode-editor-findMatchHighlightBackground, rgba(234, 92, 0, 0.33));
+        }
+        
+        .log-line.current-match {
+            outline: 1px solid var(--vscode-editor-findMatchBorder, var(--vscode-focusBorder));
+            outline-offset: -1px;
+        }
+        
+        .log-line.current-match mark.find-match {
+            background: var(--vscode-editor-findMatchBackground, rgba(81, 92, 106, 0.8));
+        }
+        
+        .log-line.find-gap {
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .line-time {
+            cursor: pointer;
+        }
+        
+        .log-line.time-gap {
+            box-shadow: inset 0 1px 0 var(--vscode-editorWarning-foreground, #cca700);
+        }
+        
+        .log-line.time-gap .line-time {
+            color: var(--vscode-editorWarning-foreground, #cca700);
+        }
+        
+        .log-line.time-anchor .line-time {
+            outline: 1px dashed var(--vscode-focusBorder);
+        }
+        
+        .source-link {
+            color: var(--vscode-textLink-foreground);
+            text-decoration: underline;
+            cursor: pointer;
+        }
+        
+        .repeat-range {
+            margin-left: 6px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .log-line.repeat-member {
+            padding-left: 24px;
+            opacity: 0.8;
+        }
+        
+        .table-header {
+            display: none;
+            flex-shrink: 0;
+            overflow: hidden;
+            font-family: var(--vscode-editor-font-family, monospace);
+            font-size: 12px;
+            background: var(--vscode-sideBar-background);
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        
+        .table-header-row {
+            height: ${ROW_HEIGHT}px;
+            line-height: ${ROW_HEIGHT}px;
+            padding: 0 8px;
+            white-space: pre;
+            width: max-content;
+            min-width: 100%;
+        }
+        
+        .cell {
+            display: inline-block;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            vertical-align: top;
+            padding-right: 8px;
+        }
+        
+        .cell.col-pid, .cell.col-tid {
+            text-align: right;
+        }
+        
+        .header-cell {
+            position: relative;
+            cursor: pointer;
+            user-select: none;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .header-cell.drop-target {
+            box-shadow: inset 2px 0 var(--vscode-focusBorder);
+        }
+        
+        .resize-handle {
+            position: absolute;
+            top: 0;
+            right: 0;
+            width: 5px;
+            height: 100%;
+            cursor: col-resize;
+        }
+        
+        .table-mode .log-line.repeat-member {
+            padding-left: 8px;
+        }
+        
+        .column-menu {
+            display: none;
+            position: fixed;
+            z-index: 10;
+            padding: 4px 0;
+            font-size: 11px;
+            background: var(--vscode-menu-background, var(--vscode-sideBar-background));
+            color: var(--vscode-menu-foreground, var(--vscode-foreground));
+            border: 1px solid var(--vscode-menu-border, var(--vscode-panel-border));
+        }
+        
+        .column-menu label {
+            display: block;
+            padding: 2px 10px;
+            cursor: pointer;
+        }
         
         .empty-state {
             display: flex;
@@ -327,35 +812,91 @@ export class LogcatViewProvider implements vscode.WebviewViewProvider {
         
         .spacer { flex: 1; }
     </style>
+    <style id="tableStyle"></style>
+    <style id="highlightStyle"></style>
 </head>
 <body>
     <div class="toolbar">
+        <div class="tab-strip" id="tabStrip" style="display: none;"></div>
         <div class="toolbar-row">
             <button id="startBtn" class="icon-btn" onclick="startCapture()" title="Start">▶</button>
             <button id="stopBtn" class="icon-btn stop" onclick="stopCapture()" disabled title="Stop">■</button>
+            <button id="pauseBtn" class="icon-btn secondary" onclick="togglePause()" disabled title="Pause the view; capture goes on">⏸</button>
             <button class="icon-btn secondary" onclick="clearLogs()" title="Clear">🗑</button>
+            <button class="icon-btn secondary" onclick="openFind()" title="Find (Ctrl+F)">🔍</button>
+            <select id="deviceSelect" onchange="selectDevice()" onfocus="refreshDevices()" title="Device; another device opens in its own tab">
+                <option value="">no device</option>
+            </select>
+            <button id="bufferBtn" class="secondary" onclick="openBufferMenu(event)" title="Log buffers to capture"></button>
             <span class="status-dot" id="statusDot"></span>
+            <span class="backlog-badge" id="backlogBadge" onclick="togglePause()" title="Resume" style="display: none;"></span>
             <span class="spacer"></span>
+            <select id="timeMode" onchange="changeTimeMode()" title="How times are shown; click a line's time to measure from it">
+                <option value="absolute">time</option>
+                <option value="start">since start</option>
+                <option value="anchor">since anchor</option>
+                <option value="delta">since previous</option>
+            </select>
+            <label title="Show lines as columns; drag headers to move them, right-click to hide them"><input type="checkbox" id="tableMode" onchange="toggleTable()"> Table</label>
+            <label title="Collapse consecutive repeated lines of the same tag and process, ignoring numbers and hex values"><input type="checkbox" id="dedupMode" onchange="toggleDedup()"> Collapse repeats</label>
             <label><input type="checkbox" id="autoScroll" checked> Lock to bottom</label>
         </div>
         <div class="toolbar-row filters">
+            <select id="presetSelect" onchange="applyPreset()" title="Filter preset">
+                <option value="">no preset</option>
+            </select>
             <select id="levelFilter" onchange="applyFilters()" title="Minimum log level">
                 <option value="V">V+</option>
                 <option value="D">D+</option>
                 <option value="I" selected>I+</option>
                 <option value="W">W+</option>
                 <option value="E">E+</option>
+                <option value="F">F</option>
             </select>
             <input type="text" id="tagFilter" placeholder="tag,-exclude,/regex/" oninput="applyFilters()" title="Comma-separated, -prefix to exclude, /regex/ for patterns">
             <input type="text" id="searchFilter" placeholder="term,-exclude,/regex/" oninput="applyFilters()" title="Comma-separated, -prefix to exclude, /regex/ for patterns">
+            <select id="bufferFilter" onchange="applyFilters()" title="Show one buffer" style="display: none;">
+                <option value="">all buffers</option>
+            </select>
+        </div>
+        <div class="toolbar-row filters">
+            <input type="text" id="packageFilter" class="package-filter" placeholder="package" onchange="followPackage()" title="Show only this app's processes, following it across restarts">
+            <span class="package-status" id="packageStatus"></span>
+            <input type="text" id="queryFilter" placeholder="query, e.g. tag:OkHttp level>=W -tag:chatty age:5m" oninput="scheduleQuery()" onchange="commitQuery()" title="Fields: tag, message, line, pid, tid, uid, level, package, buffer, age, is:crash. Combine with AND, OR, NOT (or -) and parentheses">
+        </div>
+        <div class="query-error" id="queryError"></div>
+        <div class="toolbar-row filters" id="findRow" style="display: none;">
+            <input type="text" id="findInput" placeholder="find: term,-exclude,/regex/" oninput="findChanged()" title="Highlight matches without hiding other lines. Comma-separated, -prefix to exclude, /regex/ for patterns">
+            <select id="findContext" onchange="findChanged()" title="Lines shown around each match">
+                <option value="" selected>all lines</option>
+                <option value="0">matches only</option>
+                <option value="1">±1 line</option>
+                <option value="3">±3 lines</option>
+                <option value="5">±5 lines</option>
+                <option value="10">±10 lines</option>
+            </select>
+            <span class="package-status" id="findCount"></span>
+            <button class="icon-btn secondary" onclick="findNext(false)" title="Previous match (Shift+Enter)">↑</button>
+            <button class="icon-btn secondary" onclick="findNext(true)" title="Next match (Enter)">↓</button>
+            <button class="icon-btn secondary" onclick="closeFind()" title="Close (Escape)">✕</button>
         </div>
     </div>
     
+    <div class="table-header" id="tableHeader">
+        <div class="table-header-row" id="tableHeaderRow"></div>
+    </div>
+    <div class="column-menu" id="columnMenu"></div>
+    <div class="column-menu" id="bufferMenu"></div>
+    
     <div class="log-container" id="logContainer">
         <div class="empty-state" id="emptyState">
             <div>No logs yet</div>
             <div>Click ▶ to start capturing</div>
         </div>
+        <div class="empty-state" id="noMatches" style="display: none;">No matching logs</div>
+        <div class="log-content" id="logContent">
+            <div class="log-rows" id="logRows"></div>
+        </div>
     </div>
     
     <div class="log-count">
@@ -365,145 +906,443 @@ export class LogcatViewProvider implements vscode.WebviewViewProvider {
     
     <script>
         const vscode = acquireVsCodeApi();
+        const PROTOCOL_VERSION = ${PROTOCOL_VERSION};
+        
+        function post(message) {
+            vscode.postMessage({ ...message, version: PROTOCOL_VERSION });
+        }
+        
         const logContainer = document.getElementById('logContainer');
+        const logContent = document.getElementById('logContent');
+        const logRows = document.getElementById('logRows');
         const emptyState = document.getElementById('emptyState');
+        const noMatches = document.getElementById('noMatches');
         const statusDot = document.getElementById('statusDot');
         const statusText = document.getElementById('statusText');
         const startBtn = document.getElementById('startBtn');
         const stopBtn = document.getElementById('stopBtn');
         const logCountEl = document.getElementById('logCount');
+        const tableHeader = document.getElementById('tableHeader');
+        const tableHeaderRow = document.getElementById('tableHeaderRow');
+        const columnMenu = document.getElementById('columnMenu');
+        const bufferMenu = document.getElementById('bufferMenu');
         
-        let allLogs = [];
+        // The session lives in the extension host; this is what it last reported
+        let session = { generation: 0, rows: 0, lines: 0, visible: 0, hits: 0, filtering: false };
+        // Rows received for the viewport, and the last range asked for
+        let page = { generation: -1, start: 0, rows: [] };
+        let requested = null;
+        // Scroll offset within all rows, in px; differs from scrollTop once they no longer fit
+        let virtualTop = 0;
         let isRunning = false;
+        let isPaused = false;
+        // Tabs of the host, one per device or loaded session, and the one shown
+        let tabs = [];
+        let activeTab = null;
+        let devices = [];
+        // Buffers the next capture reads
+        let captureBuffers = ${JSON.stringify(DEFAULT_LOG_BUFFERS)};
         let renderPending = false;
+        let followedPackage = '';
+        let presets = [];
+        let filtersTimer = null;
+        // False while the query is typed; the host then looks up only packages it knows
+        let queryCommitted = true;
+        let runningPids = {};
+        let findTimer = null;
+        // Line of the current find match and its number among the matches
+        let findMatch = null;
+        let tableLayout = ${JSON.stringify(DEFAULT_TABLE_LAYOUT)};
+        let timeMode = 'absolute';
+        // Lines logged this many ms after the one before are marked; 0 for none
+        let gapThreshold = 0;
+        // Line times are measured from in anchor mode
+        let anchor = null;
+        // Styles of the highlight rules; rows name the rule they match
+        let highlightRules = [];
+        // Header drag or resize in progress
+        let dragColumn = null;
+        let resize = null;
         
-        const priorityLevels = { V: 0, D: 1, I: 2, W: 3, E: 4, F: 5 };
+        const COLUMN_LABELS = { time: 'Time', pid: 'PID', tid: 'TID', process: 'Process', priority: 'P', tag: 'Tag', buffer: 'Buffer', message: 'Message' };
+        const LOG_BUFFERS = ${JSON.stringify(LOG_BUFFERS)};
+        const SORT_COLUMNS = ['time', 'pid', 'tid', 'priority', 'tag'];
         
-        const logcatRegex = /^(\\d{2}-\\d{2}\\s+\\d{2}:\\d{2}:\\d{2}\\.\\d{3})\\s+(\\d+)\\s+(\\d+)\\s+([VDIWEF])\\s+([^:]+):\\s*(.*)$/;
+        // Rows requested above and below the viewport
+        const OVERSCAN = 30;
+        // Height of the scrolled content; taller content is scaled to it
+        const MAX_CONTENT_HEIGHT = 8000000;
+        const ROW_HEIGHT = ${ROW_HEIGHT};
         
         function startCapture() {
-            vscode.postMessage({ command: 'start' });
+            post({ command: 'start', buffers: captureBuffers });
+        }
+        
+        function openBufferMenu(event) {
+            const rect = event.target.getBoundingClientRect();
+            bufferMenu.innerHTML = LOG_BUFFERS.map(buffer =>
+                '<label><input type="checkbox" data-buffer="' + buffer + '"' + (captureBuffers.includes(buffer) ? ' checked' : '') + '> ' + buffer + '</label>'
+            ).join('');
+            bufferMenu.style.left = rect.left + 'px';
+            bufferMenu.style.top = rect.bottom + 'px';
+            bufferMenu.style.display = 'block';
+        }
+        
+        /**
+         * Pick buffers for the next capture; "all" excludes the others
+         */
+        bufferMenu.addEventListener('change', event => {
+            const buffer = event.target.dataset.buffer;
+            if (event.target.checked) {
+                captureBuffers = buffer === 'all' ? ['all'] : [...captureBuffers.filter(other => other !== 'all'), buffer];
+            } else if (captureBuffers.length > 1) {
+                captureBuffers = captureBuffers.filter(other => other !== buffer);
+            }
+            captureBuffers = LOG_BUFFERS.filter(other => captureBuffers.includes(other));
+            bufferMenu.querySelectorAll('input').forEach(input => input.checked = captureBuffers.includes(input.dataset.buffer));
+            updateBufferButton();
+        });
+        
+        function updateBufferButton() {
+            document.getElementById('bufferBtn').textContent = captureBuffers.join(', ') + ' ▾';
+        }
+        
+        /**
+         * Offer the buffers of the shown tab in the buffer filter
+         */
+        function setBufferChoices(buffers) {
+            const choices = buffers.includes('all') ? LOG_BUFFERS.filter(buffer => buffer !== 'all') : buffers;
+            const bufferFilter = document.getElementById('bufferFilter');
+            if (bufferFilter.dataset.choices === choices.join(',')) return;
+            
+            const selected = bufferFilter.value;
+            bufferFilter.dataset.choices = choices.join(',');
+            bufferFilter.innerHTML = '<option value="">all buffers</option>' +
+                choices.map(buffer => '<option value="' + escapeHtml(buffer) + '">' + escapeHtml(buffer) + '</option>').join('');
+            bufferFilter.style.display = choices.length > 1 ? '' : 'none';
+            bufferFilter.value = choices.includes(selected) ? selected : '';
+            if (bufferFilter.value !== selected) {
+                applyFilters();
+            }
         }
         
         function stopCapture() {
-            vscode.postMessage({ command: 'stop' });
+            post({ command: 'stop' });
         }
         
         function clearLogs() {
-            allLogs = [];
-            logContainer.innerHTML = '';
-            emptyState.style.display = 'flex';
-            logCountEl.textContent = '0 lines';
+            post({ command: 'clear' });
         }
         
         function setRunning(running) {
             isRunning = running;
             startBtn.disabled = running;
             stopBtn.disabled = !running;
-            statusDot.classList.toggle('running', running);
-            statusText.textContent = running ? 'Running' : '';
+            document.getElementById('bufferBtn').disabled = running;
+            updatePauseState();
         }
         
-        function applyFilters() {
-            scheduleRender();
+        function selectTab(id) {
+            post({ command: 'selectTab', id: id });
         }
         
-        /**
-         * Parse a filter string into terms with support for:
-         * - Comma-separated values (OR logic): "term1,term2"
-         * - Negation with prefix: "-term" 
-         * - Regex patterns: "/pattern/"
-         */
-        function parseFilterTerms(filterStr) {
-            if (!filterStr.trim()) return [];
-            
-            return filterStr.split(',').map(term => {
-                term = term.trim();
-                if (!term) return null;
-                
-                const isNegated = term.startsWith('-');
-                if (isNegated) term = term.slice(1);
-                
-                // Don't treat empty string after removing "-" as valid
-                if (!term) return null;
-                
-                // Check for regex pattern /pattern/
-                if (term.startsWith('/') && term.endsWith('/') && term.length > 2) {
-                    try {
-                        const pattern = term.slice(1, -1);
-                        return { regex: new RegExp(pattern, 'i'), negated: isNegated };
-                    } catch (e) {
-                        // Invalid regex, treat as plain text
-                        return { text: term.toLowerCase(), negated: isNegated };
-                    }
-                }
-                
-                return { text: term.toLowerCase(), negated: isNegated };
-            }).filter(Boolean);
+        function closeTab(event, id) {
+            event.stopPropagation();
+            post({ command: 'closeTab', id: id });
+        }
+        
+        function selectDevice() {
+            post({ command: 'selectDevice', device: document.getElementById('deviceSelect').value });
+        }
+        
+        function refreshDevices() {
+            post({ command: 'refreshDevices' });
         }
         
         /**
-         * Test if a value matches any of the filter terms
-         * Returns true if the value should be INCLUDED
+         * Show the host's tabs; switching to another tab starts over with
+         * its rows, which the host sends next along with its filters
          */
-        function matchesFilter(value, terms) {
-            if (terms.length === 0) return true;
+        function setTabs(message) {
+            const switched = activeTab !== null && activeTab !== message.active;
+            tabs = message.tabs;
+            activeTab = message.active;
+            const tab = tabs.find(tab => tab.id === activeTab);
             
-            const valueLower = value.toLowerCase();
+            const tabStrip = document.getElementById('tabStrip');
+            tabStrip.style.display = tabs.length > 1 ? '' : 'none';
+            tabStrip.innerHTML = tabs.map(tab =>
+                '<div class="tab' + (tab.id === activeTab ? ' active' : '') + '" onclick="selectTab(' + tab.id + ')" title="' + escapeHtml(tab.device || tab.label) + '">' +
+                    '<span class="status-dot' + (tab.running ? ' running' : '') + '"></span>' + escapeHtml(tab.label) +
+                    '<span class="tab-close" onclick="closeTab(event, ' + tab.id + ')" title="Close">✕</span>' +
+                '</div>').join('');
             
-            // Separate positive and negative terms
-            const positiveTerms = terms.filter(t => !t.negated);
-            const negativeTerms = terms.filter(t => t.negated);
-            
-            // Check negative terms first - if any match, exclude
-            for (const term of negativeTerms) {
-                const matches = term.regex 
-                    ? term.regex.test(value)
-                    : valueLower.includes(term.text);
-                if (matches) return false;
+            if (switched) {
+                resetView(tab);
             }
+            setBufferChoices(tab.buffers);
+            updateDeviceSelect();
+            setRunning(tab.running);
+        }
+        
+        function resetView(tab) {
+            clearTimeout(filtersTimer);
+            clearTimeout(findTimer);
+            session = { generation: -1, rows: 0, lines: 0, visible: 0, hits: 0, filtering: false, sort: session.sort };
+            page = { generation: -1, start: 0, rows: [] };
+            requested = null;
+            virtualTop = 0;
+            logContainer.scrollTop = 0;
+            findMatch = null;
+            anchor = null;
+            document.getElementById('findRow').style.display = 'none';
+            document.getElementById('findInput').value = '';
+            updateFindCount();
             
-            // If no positive terms, include (only negatives were specified)
-            if (positiveTerms.length === 0) return true;
+            document.getElementById('bufferFilter').value = '';
+            captureBuffers = tab.buffers.filter(buffer => LOG_BUFFERS.includes(buffer));
+            if (captureBuffers.length === 0) {
+                captureBuffers = ${JSON.stringify(DEFAULT_LOG_BUFFERS)};
+            }
+            updateBufferButton();
+            document.getElementById('dedupMode').checked = tab.dedup;
+            scheduleRender();
+        }
+        
+        function setDevices(list) {
+            if (JSON.stringify(list) === JSON.stringify(devices)) return;
+            devices = list;
+            updateDeviceSelect();
+        }
+        
+        /**
+         * List the connected devices, and the shown tab's device even when it
+         * is gone
+         */
+        function updateDeviceSelect() {
+            const select = document.getElementById('deviceSelect');
+            const tab = tabs.find(tab => tab.id === activeTab);
+            const current = tab ? tab.device : undefined;
+            const options = devices.map(device => ({ id: device.id, label: device.name === device.id ? device.id : device.name + ' (' + device.id + ')' }));
+            if (current && !devices.some(device => device.id === current)) {
+                options.push({ id: current, label: current + ' (disconnected)' });
+            }
+            select.innerHTML = options.length === 0
+                ? '<option value="">no device</option>'
+                : options.map(option => '<option value="' + escapeHtml(option.id) + '">' + escapeHtml(option.label) + '</option>').join('');
+            select.value = current || '';
+        }
+        
+        function togglePause() {
+            post({ command: 'pause', paused: !isPaused });
+        }
+        
+        /**
+         * Take in the pause state and the number of lines captured while
+         * paused, which show once the view resumes
+         */
+        function setPaused(message) {
+            isPaused = message.paused;
+            const backlogBadge = document.getElementById('backlogBadge');
+            backlogBadge.textContent = message.backlog + (message.backlog === 1 ? ' new line' : ' new lines');
+            backlogBadge.style.display = isPaused ? '' : 'none';
+            updatePauseState();
+        }
+        
+        function updatePauseState() {
+            const pauseBtn = document.getElementById('pauseBtn');
+            // A paused view can still catch up after capture stopped
+            pauseBtn.disabled = !isRunning && !isPaused;
+            pauseBtn.textContent = isPaused ? '⏵' : '⏸';
+            pauseBtn.title = isPaused ? 'Resume' : 'Pause the view; capture goes on';
+            statusDot.classList.toggle('running', isRunning && !isPaused);
+            statusDot.classList.toggle('paused', isPaused);
+            statusText.textContent = isPaused ? 'Paused' : isRunning ? 'Running' : '';
+        }
+        
+        function applyFilters() {
+            filtersChanged();
+        }
+        
+        function getFilters() {
+            return {
+                level: document.getElementById('levelFilter').value,
+                tag: document.getElementById('tagFilter').value,
+                search: document.getElementById('searchFilter').value,
+                package: document.getElementById('packageFilter').value.trim(),
+                query: document.getElementById('queryFilter').value
+            };
+        }
+        
+        /**
+         * Show filters from the host (last session or a preset)
+         */
+        function setFilters(filters, presetName) {
+            document.getElementById('levelFilter').value = filters.level;
+            document.getElementById('tagFilter').value = filters.tag;
+            document.getElementById('searchFilter').value = filters.search;
+            document.getElementById('packageFilter').value = filters.package;
+            document.getElementById('queryFilter').value = filters.query;
+            document.getElementById('presetSelect').value = presetName || '';
+            queryCommitted = true;
             
-            // Check positive terms - at least one must match (OR logic)
-            for (const term of positiveTerms) {
-                const matches = term.regex 
-                    ? term.regex.test(value)
-                    : valueLower.includes(term.text);
-                if (matches) return true;
+            followPackage();
+        }
+        
+        function setPresets(list) {
+            const select = document.getElementById('presetSelect');
+            const selected = select.value;
+            presets = list;
+            select.innerHTML = '<option value="">no preset</option>' +
+                presets.map(preset => '<option value="' + escapeHtml(preset.name) + '">' + escapeHtml(preset.name) + '</option>').join('');
+            select.value = presets.some(preset => preset.name === selected) ? selected : '';
+        }
+        
+        function applyPreset() {
+            const preset = presets.find(preset => preset.name === document.getElementById('presetSelect').value);
+            if (preset) {
+                setFilters(preset, preset.name);
+            }
+        }
+        
+        /**
+         * Send the filters to the host once typing pauses; editing a
+         * preset's filters deselects it
+         */
+        function filtersChanged() {
+            const filters = getFilters();
+            const select = document.getElementById('presetSelect');
+            const preset = presets.find(preset => preset.name === select.value);
+            if (preset && Object.keys(filters).some(key => preset[key] !== filters[key])) {
+                select.value = '';
             }
             
-            return false;
+            clearTimeout(filtersTimer);
+            filtersTimer = setTimeout(() => post({
+                command: 'filtersChanged',
+                filters: filters,
+                buffer: document.getElementById('bufferFilter').value,
+                committed: queryCommitted
+            }), 200);
+        }
+        
+        function scheduleQuery() {
+            queryCommitted = false;
+            filtersChanged();
+        }
+        
+        /**
+         * The query was entered with Enter or by leaving the field
+         */
+        function commitQuery() {
+            queryCommitted = true;
+            filtersChanged();
         }
         
-        function getFilteredLogs() {
-            const levelFilter = document.getElementById('levelFilter').value;
-            const tagFilter = document.getElementById('tagFilter').value;
-            const searchFilter = document.getElementById('searchFilter').value;
-            const minLevel = priorityLevels[levelFilter];
+        function followPackage() {
+            followedPackage = document.getElementById('packageFilter').value.trim();
+            updatePackageStatus();
+            applyFilters();
+        }
+        
+        function setPackages(message) {
+            runningPids = message.running;
+            updatePackageStatus();
+        }
+        
+        function updatePackageStatus() {
+            const status = document.getElementById('packageStatus');
+            if (!followedPackage) {
+                status.textContent = '';
+                return;
+            }
+            const pids = runningPids[followedPackage] || [];
+            status.textContent = pids.length > 0 ? 'pid ' + pids.join(', ') : 'not running';
+        }
+        
+        function setQuery(message) {
+            const queryInput = document.getElementById('queryFilter');
+            const queryError = document.getElementById('queryError');
             
-            const tagTerms = parseFilterTerms(tagFilter);
-            const searchTerms = parseFilterTerms(searchFilter);
+            // Ignore answers for text that has been edited since
+            if (message.text !== queryInput.value) return;
             
-            return allLogs.filter(log => {
-                // Level filter
-                if (priorityLevels[log.priority] < minLevel) return false;
-                
-                // Tag filter
-                if (!matchesFilter(log.tag || '', tagTerms)) return false;
-                
-                // Search filter
-                if (!matchesFilter(log.raw || '', searchTerms)) return false;
-                
-                return true;
-            });
+            queryInput.classList.toggle('invalid', !!message.error);
+            queryError.textContent = message.error || '';
+            queryError.style.display = message.error ? 'block' : 'none';
         }
         
+        const HTML_ESCAPES = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+        
+        /**
+         * Escape text for element content and quoted attribute values
+         */
         function escapeHtml(text) {
-            const div = document.createElement('div');
-            div.textContent = text;
-            return div.innerHTML;
+            return String(text).replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+        }
+        
+        function isAtBottom() {
+            return logContainer.scrollTop + logContainer.clientHeight >= logContainer.scrollHeight - 50;
+        }
+        
+        /**
+         * Ratio between offsets within all rows and scrollTop
+         */
+        function getScrollScale() {
+            const fullHeight = session.rows * ROW_HEIGHT;
+            const contentHeight = Math.min(fullHeight, MAX_CONTENT_HEIGHT);
+            const viewHeight = logContainer.clientHeight;
+            return contentHeight > viewHeight ? (fullHeight - viewHeight) / (contentHeight - viewHeight) : 1;
+        }
+        
+        /**
+         * Ask the host for the rows in and around the viewport
+         */
+        function requestRows(force) {
+            const top = Math.floor(virtualTop / ROW_HEIGHT);
+            const start = Math.max(0, top - OVERSCAN);
+            const end = Math.min(session.rows, Math.ceil((virtualTop + logContainer.clientHeight) / ROW_HEIGHT) + OVERSCAN);
+            if (!force && requested && requested.start === start && requested.end === end && requested.generation === session.generation) {
+                return;
+            }
+            requested = { start: start, end: end, generation: session.generation };
+            post({ command: 'getRows', start: start, end: end, top: top });
+        }
+        
+        /**
+         * Take in the session state after lines were added or the rows were
+         * rebuilt, following the bottom or keeping the view in place
+         */
+        function updateSession(message) {
+            const wasAtBottom = isAtBottom();
+            const sortChanged = JSON.stringify(session.sort) !== JSON.stringify(message.sort);
+            session = message;
+            
+            logContent.style.height = Math.min(session.rows * ROW_HEIGHT, MAX_CONTENT_HEIGHT) + 'px';
+            if (document.getElementById('autoScroll').checked && wasAtBottom) {
+                logContainer.scrollTop = logContainer.scrollHeight;
+                virtualTop = logContainer.scrollTop * getScrollScale();
+            } else {
+                if (message.scrollTo !== undefined) {
+                    virtualTop = message.scrollTo * ROW_HEIGHT;
+                }
+                logContainer.scrollTop = virtualTop / getScrollScale();
+            }
+            
+            if (sortChanged) {
+                renderHeader();
+            }
+            updateFindCount();
+            
+            requestRows(true);
+            scheduleRender();
+        }
+        
+        function onScroll() {
+            virtualTop = logContainer.scrollTop * getScrollScale();
+            tableHeader.scrollLeft = logContainer.scrollLeft;
+            requestRows(false);
+            scheduleRender();
         }
         
         function scheduleRender() {
@@ -513,82 +1352,586 @@ export class LogcatViewProvider implements vscode.WebviewViewProvider {
             }
         }
         
-        function renderLogs() {
-            renderPending = false;
-            const filtered = getFilteredLogs();
-            const autoScroll = document.getElementById('autoScroll').checked;
-            const wasAtBottom = logContainer.scrollTop + logContainer.clientHeight >= logContainer.scrollHeight - 50;
+        /**
+         * Render one row; crash incidents collapse into a summary
+         * header that expands to show every line of the incident
+         */
+        function renderRow(row, index) {
+            if (row.kind === 'header') {
+                return '<div class="log-line crash-header" onclick="toggleCrash(' + row.crashId + ')">' +
+                    (row.expanded ? '▾ ' : '▸ ') + escapeHtml(row.summary) + '</div>';
+            }
+            if (row.kind === 'gap') {
+                return '<div class="log-line find-gap">⋯</div>';
+            }
+            if (row.kind === 'repeat') {
+                return '<div class="log-line repeat-member ' + (row.entry.priority || 'V') + getHighlightClass(row) + '">' +
+                    renderEntry(row, index, renderHighlightBadge(row), '') + '</div>';
+            }
             
-            if (filtered.length === 0) {
-                if (allLogs.length === 0) {
-                    emptyState.style.display = 'flex';
-                } else {
-                    emptyState.style.display = 'none';
-                    logContainer.innerHTML = '<div class="empty-state">No matching logs</div>';
+            const bookmarked = row.bookmark !== undefined;
+            const current = findMatch && findMatch.id === row.id;
+            const lineClass = 'log-line ' + (row.entry.priority || 'V') + (row.crash ? ' crash-member' : '') +
+                (bookmarked ? ' bookmarked' : '') + (current ? ' current-match' : '') +
+                (isTimeGap(row) ? ' time-gap' : '') + (anchor && anchor.id === row.id ? ' time-anchor' : '') + getHighlightClass(row);
+            const toggle = '<span class="bookmark-toggle" onclick="toggleBookmark(' + row.id + ')" title="' +
+                (bookmarked ? 'Remove bookmark' : 'Bookmark this line') + '">' + (bookmarked ? '★' : '☆') + '</span>';
+            const before = renderHighlightBadge(row) + (row.count > 1 ? renderRepeatBadge(row) : '');
+            const after = (row.count > 1 ? renderRepeatRange(row) : '') +
+                (row.bookmark ? '<span class="bookmark-note">' + escapeHtml(row.bookmark) + '</span>' : '');
+            return '<div class="' + lineClass + '">' + toggle + renderEntry(row, index, before, after) + '</div>';
+        }
+        
+        /**
+         * Render the text of a line, or its cells in table mode, with
+         * before and after around the message
+         */
+        function renderEntry(row, index, before, after) {
+            const entry = row.entry;
+            if (!tableLayout.enabled) {
+                // The time at the start of the line is shown in the chosen mode
+                const at = entry.time !== undefined && entry.timestamp ? entry.raw.indexOf(entry.timestamp) : -1;
+                if (at < 0 || entry.raw.slice(0, at).trim() !== '') {
+                    return before + renderText(row, index, entry.raw, 0) + after;
                 }
-                logCountEl.textContent = allLogs.length > 0 ? '0 / ' + allLogs.length + ' lines' : '0 lines';
-                return;
+                const end = at + entry.timestamp.length;
+                return before + escapeHtml(entry.raw.slice(0, at)) + renderTime(row) + renderText(row, index, entry.raw.slice(end), end) + after;
             }
             
-            emptyState.style.display = 'none';
-            
-            const toRender = filtered.slice(-3000);
-            
-            const html = toRender.map(log => 
-                '<div class="log-line ' + (log.priority || '') + '">' + escapeHtml(log.raw) + '</div>'
+            // Unparsed lines only fill the message column
+            const parsed = entry.priority !== undefined;
+            return getVisibleColumns().map(column => {
+                let text = '';
+                // Where the text starts in the raw line, for find matches
+                let offset = -1;
+                if (column.id === 'message') {
+                    text = parsed ? (entry.message ?? '') : entry.raw;
+                    offset = entry.raw.endsWith(text) ? entry.raw.length - text.length : -1;
+                } else if (parsed) {
+                    const value = column.id === 'process' ? row.process : entry[column.id];
+                    text = value !== undefined ? String(value) : '';
+                }
+                const content = column.id === 'message' ? before + renderText(row, index, text, offset) + after :
+                    column.id === 'time' && parsed ? renderTime(row) : escapeHtml(text);
+                return '<span class="cell col-' + column.id + '">' + content + '</span>';
+            }).join('');
+        }
+        
+        /**
+         * Escape text, highlighting find matches and turning the location
+         * of a stack frame the host found in the project into a link.
+         * Matches are ranges of the raw line; the text starts at offset.
+         */
+        function renderText(row, index, text, offset) {
+            const html = highlightMatches(text, offset >= 0 ? row.matches : null, offset);
+            if (!row.source) {
+                return html;
+            }
+            return html.replace(/\\(([\\w$-]+\\.(?:java|kt):\\d+)\\)/, (match, location) =>
+                '(<span class="source-link" onclick="openSource(' + index + ')" title="Open in editor">' + location + '</span>)');
+        }
+        
+        /**
+         * Render the time of a line in the chosen mode; clicking it makes
+         * the line the anchor
+         */
+        function renderTime(row) {
+            const entry = row.entry;
+            const text = formatTime(row);
+            if (row.kind !== 'line' || entry.time === undefined) {
+                return escapeHtml(text);
+            }
+            const title = [
+                text !== entry.timestamp ? entry.timestamp : '',
+                isTimeGap(row) ? formatDuration(row.delta) + ' after the line before' : '',
+                'Click to measure times from this line'
+            ].filter(part => part).join('\\n');
+            return '<span class="line-time" onclick="setAnchor(' + row.id + ')" title="' + escapeHtml(title) + '">' + escapeHtml(text) + '</span>';
+        }
+        
+        function formatTime(row) {
+            const entry = row.entry;
+            const text = entry.timestamp || '';
+            if (entry.time === undefined || timeMode === 'absolute') {
+                return text;
+            }
+            if (timeMode === 'delta') {
+                return row.delta !== undefined ? formatDuration(row.delta) : text;
+            }
+            const origin = timeMode === 'anchor' ? (anchor ? anchor.time : undefined) : session.startTime;
+            return origin !== undefined ? formatDuration(entry.time - origin) : text;
+        }
+        
+        /**
+         * Format ms as +s.mmm, +m:ss.mmm or +h:mm:ss.mmm
+         */
+        function formatDuration(ms) {
+            const sign = ms < 0 ? '-' : '+';
+            const millis = Math.round(Math.abs(ms));
+            const seconds = (millis % 60000 / 1000).toFixed(3);
+            const minutes = Math.floor(millis / 60000);
+            if (minutes === 0) {
+                return sign + seconds + 's';
+            }
+            const hours = Math.floor(minutes / 60);
+            const clock = (hours > 0 ? hours + ':' + String(minutes % 60).padStart(2, '0') : String(minutes)) + ':' + seconds.padStart(6, '0');
+            return sign + clock;
+        }
+        
+        function isTimeGap(row) {
+            return gapThreshold > 0 && row.delta !== undefined && row.delta >= gapThreshold;
+        }
+        
+        function setTimeMode(mode) {
+            timeMode = mode;
+            document.getElementById('timeMode').value = mode;
+            scheduleRender();
+        }
+        
+        function changeTimeMode() {
+            setTimeMode(document.getElementById('timeMode').value);
+            post({ command: 'timeMode', mode: timeMode });
+        }
+        
+        /**
+         * Measure times from a line, switching to anchor mode
+         */
+        function setAnchor(id) {
+            const row = page.rows.find(row => row.kind === 'line' && row.id === id);
+            if (!row) return;
+            anchor = { id: id, time: row.entry.time };
+            if (timeMode !== 'anchor') {
+                setTimeMode('anchor');
+                post({ command: 'timeMode', mode: timeMode });
+            } else {
+                scheduleRender();
+            }
+        }
+        
+        function highlightMatches(text, matches, offset) {
+            if (!matches) {
+                return escapeHtml(text);
+            }
+            let html = '';
+            let position = 0;
+            for (const match of matches) {
+                const start = Math.max(match[0] - offset, position);
+                const end = Math.min(match[1] - offset, text.length);
+                if (end <= start) continue;
+                html += escapeHtml(text.slice(position, start)) + '<mark class="find-match">' + escapeHtml(text.slice(start, end)) + '</mark>';
+                position = end;
+            }
+            return html + escapeHtml(text.slice(position));
+        }
+        
+        function openFind() {
+            const findInput = document.getElementById('findInput');
+            document.getElementById('findRow').style.display = '';
+            findInput.focus();
+            findInput.select();
+        }
+        
+        function closeFind() {
+            document.getElementById('findRow').style.display = 'none';
+            document.getElementById('findInput').value = '';
+            findChanged();
+        }
+        
+        /**
+         * Send the find to the host once typing pauses
+         */
+        function findChanged() {
+            findMatch = null;
+            clearTimeout(findTimer);
+            findTimer = setTimeout(() => {
+                const context = document.getElementById('findContext').value;
+                post({
+                    command: 'find',
+                    text: document.getElementById('findInput').value,
+                    context: context === '' ? undefined : parseInt(context, 10)
+                });
+            }, 200);
+        }
+        
+        function findNext(forward) {
+            post({ command: 'findNext', forward: forward });
+        }
+        
+        function setFindMatch(message) {
+            findMatch = message;
+            updateFindCount();
+            scheduleRender();
+        }
+        
+        function updateFindCount() {
+            const findCount = document.getElementById('findCount');
+            if (!document.getElementById('findInput').value.trim()) {
+                findCount.textContent = '';
+            } else if (session.hits === 0) {
+                findCount.textContent = session.filtering ? 'Finding…' : 'No matches';
+            } else {
+                findCount.textContent = (findMatch ? findMatch.index + ' / ' : '') + session.hits + (session.hits === 1 ? ' match' : ' matches');
+            }
+        }
+        
+        document.getElementById('findInput').addEventListener('keydown', event => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                findNext(!event.shiftKey);
+            } else if (event.key === 'Escape') {
+                closeFind();
+            }
+        });
+        
+        document.addEventListener('keydown', event => {
+            if ((event.ctrlKey || event.metaKey) && event.key === 'f') {
+                event.preventDefault();
+                openFind();
+            }
+        });
+        
+        function openSource(index) {
+            const row = page.rows[index];
+            if (row && row.source) {
+                post({ command: 'openSource', id: row.id });
+            }
+        }
+        
+        /**
+         * A ×N badge on a collapsed row; the original lines follow as rows
+         * of their own when expanded
+         */
+        function renderRepeatBadge(row) {
+            return '<span class="repeat-count" onclick="toggleRepeats(' + row.id + ')" title="Show every line">×' + row.count + '</span>';
+        }
+        
+        function getHighlightClass(row) {
+            return row.highlight !== undefined ? ' highlight-' + row.highlight : '';
+        }
+        
+        function renderHighlightBadge(row) {
+            const rule = row.highlight !== undefined ? highlightRules[row.highlight] : undefined;
+            return rule && rule.badge ? '<span class="highlight-badge">' + escapeHtml(rule.badge) + '</span>' : '';
+        }
+        
+        /**
+         * Style the lines of each highlight rule; they come after the
+         * priority colors, so they win over them
+         */
+        function setHighlightRules(rules) {
+            highlightRules = rules;
+            document.getElementById('highlightStyle').textContent = rules.map((rule, index) =>
+                '.log-line.highlight-' + index + ' {' +
+                (rule.foreground ? ' color: ' + rule.foreground + ';' : '') +
+                (rule.background ? ' background: ' + rule.background + ';' : '') +
+                (rule.bold ? ' font-weight: bold;' : '') + ' }').join(' ');
+            scheduleRender();
+        }
+        
+        function renderRepeatRange(row) {
+            return row.entry.timestamp ? '<span class="repeat-range">' + escapeHtml(row.entry.timestamp + ' – ' + row.lastTimestamp) + '</span>' : '';
+        }
+        
+        function toggleRepeats(id) {
+            post({ command: 'toggleRepeats', id: id });
+        }
+        
+        function toggleBookmark(id) {
+            post({ command: 'toggleBookmark', id: id });
+        }
+        
+        /**
+         * Scroll a row to the top of the view, e.g. a bookmarked line, or to
+         * its middle
+         */
+        function revealRow(row, center) {
+            const offset = center ? Math.max(0, logContainer.clientHeight / 2 - ROW_HEIGHT) : 0;
+            virtualTop = Math.max(0, row * ROW_HEIGHT - offset);
+            logContainer.scrollTop = virtualTop / getScrollScale();
+            requestRows(false);
+            scheduleRender();
+        }
+        
+        function toggleCrash(id) {
+            post({ command: 'toggleCrash', id: id });
+        }
+        
+        function toggleDedup() {
+            post({ command: 'dedup', enabled: document.getElementById('dedupMode').checked });
+        }
+        
+        function getVisibleColumns() {
+            return tableLayout.columns.filter(column => !column.hidden);
+        }
+        
+        /**
+         * Show the layout remembered by the host
+         */
+        function setLayout(layout) {
+            tableLayout = layout;
+            document.getElementById('tableMode').checked = layout.enabled;
+            updateTable();
+        }
+        
+        function saveLayout() {
+            post({ command: 'layoutChanged', layout: tableLayout });
+        }
+        
+        /**
+         * Switch between raw lines and columns; raw lines are shown in
+         * arrival order
+         */
+        function toggleTable() {
+            tableLayout.enabled = document.getElementById('tableMode').checked;
+            if (!tableLayout.enabled && session.sort) {
+                post({ command: 'sort' });
+            }
+            updateTable();
+            saveLayout();
+        }
+        
+        function updateTable() {
+            document.body.classList.toggle('table-mode', tableLayout.enabled);
+            tableHeader.style.display = tableLayout.enabled ? 'block' : 'none';
+            updateColumnWidths();
+            renderHeader();
+            requestRows(false);
+            scheduleRender();
+        }
+        
+        function updateColumnWidths() {
+            document.getElementById('tableStyle').textContent = tableLayout.columns
+                .map(column => '.col-' + column.id + ' { width: ' + column.width + 'px; }')
+                .join(' ');
+        }
+        
+        function renderHeader() {
+            const sort = session.sort;
+            tableHeaderRow.innerHTML = getVisibleColumns().map(column => {
+                const sortable = SORT_COLUMNS.includes(column.id);
+                const arrow = sort && sort.column === column.id ? (sort.ascending ? ' ▲' : ' ▼') : '';
+                const title = (sortable ? 'Click to sort, drag' : 'Drag') + ' to move, right-click to hide columns';
+                return '<span class="cell header-cell col-' + column.id + '" draggable="true" data-column="' + column.id + '" title="' + title + '">' +
+                    COLUMN_LABELS[column.id] + arrow + '<span class="resize-handle"></span></span>';
+            }).join('');
+            tableHeader.scrollLeft = logContainer.scrollLeft;
+        }
+        
+        /**
+         * Sort on a column: ascending, then descending, then arrival order
+         */
+        function sortBy(columnId) {
+            const sort = session.sort;
+            if (!sort || sort.column !== columnId) {
+                post({ command: 'sort', sort: { column: columnId, ascending: true } });
+            } else if (sort.ascending) {
+                post({ command: 'sort', sort: { column: columnId, ascending: false } });
+            } else {
+                post({ command: 'sort' });
+            }
+        }
+        
+        function getHeaderCell(event) {
+            return event.target.closest ? event.target.closest('.header-cell') : null;
+        }
+        
+        function getColumn(id) {
+            return tableLayout.columns.find(column => column.id === id);
+        }
+        
+        tableHeaderRow.addEventListener('click', event => {
+            const cell = getHeaderCell(event);
+            if (cell && !event.target.classList.contains('resize-handle') && SORT_COLUMNS.includes(cell.dataset.column)) {
+                sortBy(cell.dataset.column);
+            }
+        });
+        
+        tableHeaderRow.addEventListener('mousedown', event => {
+            const cell = getHeaderCell(event);
+            if (!cell || !event.target.classList.contains('resize-handle')) return;
+            // Resizing must not start a drag
+            event.preventDefault();
+            event.stopPropagation();
+            const column = getColumn(cell.dataset.column);
+            resize = { column: column, startX: event.clientX, startWidth: column.width };
+        });
+        
+        window.addEventListener('mousemove', event => {
+            if (!resize) return;
+            resize.column.width = Math.max(16, resize.startWidth + event.clientX - resize.startX);
+            updateColumnWidths();
+        });
+        
+        window.addEventListener('mouseup', () => {
+            if (!resize) return;
+            resize = null;
+            saveLayout();
+        });
+        
+        tableHeaderRow.addEventListener('dragstart', event => {
+            const cell = getHeaderCell(event);
+            dragColumn = cell ? cell.dataset.column : null;
+            event.dataTransfer.effectAllowed = 'move';
+        });
+        
+        tableHeaderRow.addEventListener('dragover', event => {
+            const cell = getHeaderCell(event);
+            if (!dragColumn || !cell) return;
+            event.preventDefault();
+            tableHeaderRow.querySelectorAll('.drop-target').forEach(other => other.classList.remove('drop-target'));
+            cell.classList.add('drop-target');
+        });
+        
+        tableHeaderRow.addEventListener('dragend', () => {
+            dragColumn = null;
+            tableHeaderRow.querySelectorAll('.drop-target').forEach(other => other.classList.remove('drop-target'));
+        });
+        
+        // A column dropped on another takes its place
+        tableHeaderRow.addEventListener('drop', event => {
+            const cell = getHeaderCell(event);
+            event.preventDefault();
+            if (!dragColumn || !cell || cell.dataset.column === dragColumn) return;
+            const moved = getColumn(dragColumn);
+            const columns = tableLayout.columns.filter(column => column !== moved);
+            columns.splice(columns.indexOf(getColumn(cell.dataset.column)), 0, moved);
+            tableLayout.columns = columns;
+            dragColumn = null;
+            updateTable();
+            saveLayout();
+        });
+        
+        tableHeaderRow.addEventListener('contextmenu', event => {
+            event.preventDefault();
+            columnMenu.innerHTML = tableLayout.columns.map(column =>
+                '<label><input type="checkbox" data-column="' + column.id + '"' + (column.hidden ? '' : ' checked') + '> ' + COLUMN_LABELS[column.id] + '</label>'
             ).join('');
-            
-            logContainer.innerHTML = html;
-            
-            if (autoScroll && (wasAtBottom || isRunning)) {
-                logContainer.scrollTop = logContainer.scrollHeight;
+            columnMenu.style.left = event.clientX + 'px';
+            columnMenu.style.top = event.clientY + 'px';
+            columnMenu.style.display = 'block';
+        });
+        
+        columnMenu.addEventListener('change', event => {
+            const column = getColumn(event.target.dataset.column);
+            // Keep at least one column
+            if (!event.target.checked && getVisibleColumns().length === 1) {
+                event.target.checked = true;
+                return;
             }
-            
-            logCountEl.textContent = (filtered.length === allLogs.length) 
-                ? filtered.length + ' lines'
-                : filtered.length + ' / ' + allLogs.length + ' lines';
-        }
-        
-        function parseLine(line) {
-            const match = line.match(logcatRegex);
-            if (match) {
-                return {
-                    raw: line,
-                    timestamp: match[1],
-                    pid: match[2],
-                    tid: match[3],
-                    priority: match[4],
-                    tag: match[5].trim(),
-                    message: match[6]
-                };
-            }
-            const priorityMatch = line.match(/\\s([VDIWEF])\\s/);
-            return {
-                raw: line,
-                priority: priorityMatch ? priorityMatch[1] : 'V',
-                tag: ''
-            };
+            column.hidden = !event.target.checked;
+            updateTable();
+            saveLayout();
+        });
+        
+        window.addEventListener('mousedown', event => {
+            if (!columnMenu.contains(event.target)) {
+                columnMenu.style.display = 'none';
+            }
+            if (!bufferMenu.contains(event.target) && event.target.id !== 'bufferBtn') {
+                bufferMenu.style.display = 'none';
+            }
+        });
+        
+        /**
+         * Get ready for a recorded session; its buffers become choices of
+         * the buffer filter
+         */
+        function loadSession(title, buffers) {
+            setBufferChoices(buffers);
+            statusText.textContent = title;
+            applyFilters();
         }
         
-        function addLogs(text) {
-            const lines = text.split('\\n').filter(line => line.trim());
-            if (lines.length === 0) return;
+        function setRows(message) {
+            // Rows of an older generation are at other indexes now
+            if (message.generation !== session.generation) return;
+            page = message;
+            scheduleRender();
+        }
+        
+        /**
+         * Render the rows received for the viewport. Rows have a fixed
+         * height, so the content is sized for all of them without creating them.
+         */
+        function renderLogs() {
+            renderPending = false;
+            
+            if (session.lines === 0) {
+                emptyState.style.display = 'flex';
+                noMatches.style.display = 'none';
+                logContent.style.display = 'none';
+                logCountEl.textContent = '0 lines';
+                return;
+            }
             
-            const newLogs = lines.map(parseLine);
-            allLogs.push(...newLogs);
+            emptyState.style.display = 'none';
+            noMatches.style.display = session.rows === 0 && !session.filtering ? 'flex' : 'none';
+            logContent.style.display = session.rows === 0 ? 'none' : '';
             
-            if (allLogs.length > 30000) {
-                allLogs = allLogs.slice(-25000);
+            if (page.generation === session.generation) {
+                logRows.style.top = (logContainer.scrollTop + page.start * ROW_HEIGHT - virtualTop) + 'px';
+                logRows.innerHTML = page.rows.map(renderRow).join('');
             }
             
-            scheduleRender();
+            if (session.filtering) {
+                logCountEl.textContent = 'Filtering ' + session.lines + ' lines…';
+            } else {
+                logCountEl.textContent = (session.visible === session.lines)
+                    ? session.lines + ' lines'
+                    : session.visible + ' / ' + session.lines + ' lines';
+            }
         }
         
         window.addEventListener('message', event => {
             const message = event.data;
+            if (message.version !== PROTOCOL_VERSION) return;
+            
             switch (message.command) {
-                case 'log':
-                    addLogs(message.data);
+                case 'session':
+                    updateSession(message);
+                    break;
+                case 'rows':
+                    setRows(message);
+                    break;
+                case 'load':
+                    loadSession(message.title, message.buffers);
+                    break;
+                case 'query':
+                    setQuery(message);
+                    break;
+                case 'filters':
+                    setFilters(message.filters, message.preset);
+                    break;
+                case 'presets':
+                    setPresets(message.presets);
+                    break;
+                case 'layout':
+                    setLayout(message.layout);
+                    break;
+                case 'timeMode':
+                    gapThreshold = message.gapThreshold;
+                    setTimeMode(message.mode);
+                    break;
+                case 'highlightRules':
+                    setHighlightRules(message.rules);
+                    break;
+                case 'reveal':
+                    revealRow(message.row, message.center);
+                    break;
+                case 'findMatch':
+                    setFindMatch(message);
+                    break;
+                case 'paused':
+                    setPaused(message);
+                    break;
+                case 'tabs':
+                    setTabs(message);
+                    break;
+                case 'devices':
+                    setDevices(message.devices);
+                    break;
+                case 'packages':
+                    setPackages(message);
                     break;
                 case 'started':
                     setRunning(true);
@@ -603,7 +1946,13 @@ export class LogcatViewProvider implements vscode.WebviewViewProvider {
             }
         });
         
+        logContainer.addEventListener('scroll', onScroll);
+        window.addEventListener('resize', () => requestRows(false));
+        
         setRunning(false);
+        updateBufferButton();
+        scheduleRender();
+        post({ command: 'ready' });
     </script>
 </body>
 </html>
@@ -611,9 +1960,16 @@ export class LogcatViewProvider implements vscode.WebviewViewProvider {
     }
 }
 
+function getBufferCapacity(): number {
+    const config = vscode.workspace.getConfiguration('logcat-viewer');
+    return Math.max(config.get<number>('bufferCapacity', 100000), 1000);
+}
+
+function getTimeGapThreshold(): number {
+    const config = vscode.workspace.getConfiguration('logcat-viewer');
+    return Math.max(config.get<number>('timeGapThreshold', 1000), 0);
+}
+
 export function dispose(): void {
-    if (adbProcess) {
-        adbProcess.kill();
-        adbProcess = null;
-    }
+    stopCaptures();
 }
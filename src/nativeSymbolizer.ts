@@ -0,0 +1,246 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A "#00 pc 0001a2b4  /data/app/.../lib/arm64/libfoo.so (func+12)" frame
+ */
+interface NativeFrame {
+    lineIndex: number;
+    pc: string;
+    libraryName: string;
+    abi?: string;
+}
+
+interface SymbolizedLocation {
+    functionName: string;
+    file?: string;
+    line?: number;
+    column?: number;
+}
+
+// "#00 pc 0001a2b4  /data/app/~~x/com.example-y/lib/arm64/libfoo.so (func+12)"
+const NATIVE_FRAME_PATTERN = /#\d+\s+pc\s+([0-9a-fA-F]+)\s+(\S+\.so)\b/;
+
+// Library directories on the device mapped to the ABI folder names of the build
+const DEVICE_ABI_DIRS: Record<string, string> = {
+    'arm64': 'arm64-v8a',
+    'arm': 'armeabi-v7a',
+    'x86': 'x86',
+    'x86_64': 'x86_64'
+};
+
+/**
+ * Find a symbolizer: the configured path, llvm-symbolizer from the NDK,
+ * or llvm-symbolizer/addr2line from PATH
+ */
+function findSymbolizer(): string {
+    const config = vscode.workspace.getConfiguration('android');
+    const configuredPath = config.get<string>('symbolizerPath', '');
+
+    if (configuredPath) {
+        return configuredPath;
+    }
+
+    const sdkPath = config.get<string>('sdkPath', '') || process.env.ANDROID_HOME || process.env.ANDROID_SDK_ROOT || '';
+    const executable = process.platform === 'win32' ? 'llvm-symbolizer.exe' : 'llvm-symbolizer';
+
+    if (sdkPath) {
+        const ndkRoots: string[] = [];
+        const ndkDir = path.join(sdkPath, 'ndk');
+        if (fs.existsSync(ndkDir)) {
+            // Newest NDK first
+            const versions = fs.readdirSync(ndkDir).sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+            ndkRoots.push(...versions.map(version => path.join(ndkDir, version)));
+        }
+        ndkRoots.push(path.join(sdkPath, 'ndk-bundle'));
+
+        for (const ndkRoot of ndkRoots) {
+            const prebuiltDir = path.join(ndkRoot, 'toolchains', 'llvm', 'prebuilt');
+            if (!fs.existsSync(prebuiltDir)) {
+                continue;
+            }
+            for (const host of fs.readdirSync(prebuiltDir)) {
+                const candidate = path.join(prebuiltDir, host, 'bin', executable);
+                if (fs.existsSync(candidate)) {
+                    return candidate;
+                }
+            }
+        }
+    }
+
+    // Fall back to hoping it's in PATH
+    return 'llvm-symbolizer';
+}
+
+/**
+ * Find the native frames in a list of lines
+ */
+function findNativeFrames(lines: string[]): NativeFrame[] {
+    const frames: NativeFrame[] = [];
+
+    lines.forEach((line, lineIndex) => {
+        const match = line.match(NATIVE_FRAME_PATTERN);
+        if (!match) {
+            return;
+        }
+
+        const devicePath = match[2];
+        const abiDir = path.posix.basename(path.posix.dirname(devicePath));
+        frames.push({
+            lineIndex,
+            pc: match[1],
+            libraryName: path.posix.basename(devicePath),
+            abi: DEVICE_ABI_DIRS[abiDir]
+        });
+    });
+
+    return frames;
+}
+
+/**
+ * Pick the local library matching a frame's name, preferring its ABI
+ */
+function findLocalLibrary(frame: NativeFrame, libraries: string[]): string | undefined {
+    const candidates = libraries.filter(library => path.basename(library) === frame.libraryName);
+    if (frame.abi) {
+        const abiMatch = candidates.find(library => path.basename(path.dirname(library)) === frame.abi);
+        if (abiMatch) {
+            return abiMatch;
+        }
+    }
+    return candidates[0];
+}
+
+/**
+ * Run the symbolizer for a set of addresses in one library
+ */
+function runSymbolizer(symbolizer: string, library: string, addresses: string[]): Promise<SymbolizedLocation[][]> {
+    const isAddr2line = path.basename(symbolizer).includes('addr2line');
+    const args = isAddr2line
+        ? ['-C', '-f', '-e', library, ...addresses.map(address => '0x' + address)]
+        : ['--obj=' + library, '--demangle', '--functions=linkage', '--inlining', ...addresses.map(address => '0x' + address)];
+
+    return new Promise((resolve, reject) => {
+        cp.execFile(symbolizer, args, { maxBuffer: 4 * 1024 * 1024 }, (error, stdout) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+            resolve(isAddr2line ? parseAddr2lineOutput(stdout) : parseSymbolizerOutput(stdout));
+        });
+    });
+}
+
+/**
+ * Parse llvm-symbolizer output: per address, "function\nfile:line:column" pairs
+ * (more than one when inlined), followed by a blank line
+ */
+function parseSymbolizerOutput(output: string): SymbolizedLocation[][] {
+    return output
+        .replace(/\r/g, '')
+        .split(/\n\s*\n/)
+        .filter(block => block.trim())
+        .map(block => {
+            const lines = block.split('\n').filter(line => line.trim());
+            const locations: SymbolizedLocation[] = [];
+            for (let i = 0; i + 1 < lines.length; i += 2) {
+                locations.push(parseLocation(lines[i], lines[i + 1]));
+            }
+            return locations;
+        });
+}
+
+/**
+ * Parse addr2line output: exactly "function\nfile:line" per address
+ */
+function parseAddr2lineOutput(output: string): SymbolizedLocation[][] {
+    const lines = output.replace(/\r/g, '').split('\n').filter(line => line.trim());
+    const results: SymbolizedLocation[][] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        results.push([parseLocation(lines[i], lines[i + 1])]);
+    }
+    return results;
+}
+
+/**
+ * Parse one function/location pair, e.g. "crash()" and "/src/foo.cpp:42:7"
+ */
+function parseLocation(functionName: string, location: string): SymbolizedLocation {
+    const match = location.trim().match(/^(.*?):(\d+)(?::(\d+))?(?:\s+\(discriminator \d+\))?$/);
+    if (!match || match[1] === '??' || match[2] === '0') {
+        return { functionName: functionName.trim() };
+    }
+    return {
+        functionName: functionName.trim(),
+        file: match[1],
+        line: parseInt(match[2], 10),
+        column: match[3] ? parseInt(match[3], 10) : undefined
+    };
+}
+
+/**
+ * Format a symbolized location, e.g. "crash() at /src/foo.cpp:42:7"
+ */
+function formatLocation(location: SymbolizedLocation): string {
+    if (!location.file || location.line === undefined) {
+        return location.functionName;
+    }
+    const column = location.column !== undefined ? `:${location.column}` : '';
+    return `${location.functionName} at ${location.file}:${location.line}${column}`;
+}
+
+/**
+ * Symbolize the native backtrace frames in logcat text.
+ * Each frame gets its function and source location appended; inlined
+ * callers follow on extra lines. Frames of libraries that have no local
+ * unstripped copy are left as they are.
+ */
+export async function symbolizeText(text: string, libraries: string[]): Promise<{ text: string; symbolized: number }> {
+    const lines = text.split('\n');
+    const frames = findNativeFrames(lines);
+    const symbolizer = findSymbolizer();
+
+    // Batch addresses per local library
+    const framesByLibrary = new Map<string, NativeFrame[]>();
+    for (const frame of frames) {
+        const library = findLocalLibrary(frame, libraries);
+        if (library) {
+            const libraryFrames = framesByLibrary.get(library) ?? [];
+            libraryFrames.push(frame);
+            framesByLibrary.set(library, libraryFrames);
+        }
+    }
+
+    const additions = new Map<number, string[]>();
+    for (const [library, libraryFrames] of framesByLibrary) {
+        const results = await runSymbolizer(symbolizer, library, libraryFrames.map(frame => frame.pc));
+        libraryFrames.forEach((frame, index) => {
+            const locations = results[index] ?? [];
+            if (locations.length > 0 && locations.some(location => location.file || location.functionName !== '??')) {
+                additions.set(frame.lineIndex, locations.map(formatLocation));
+            }
+        });
+    }
+
+    const output: string[] = [];
+    lines.forEach((line, lineIndex) => {
+        const locations = additions.get(lineIndex);
+        if (!locations) {
+            output.push(line);
+            return;
+        }
+
+        // Innermost (inlined) function first, like the symbolizer reports it
+        // Inlined callers keep the frame's logcat header so they still parse
+        const frameStart = line.search(/#\d+\s+pc/);
+        const prefix = line.slice(0, frameStart) + ' '.repeat(4);
+        output.push(`${line}  // ${locations[0]}`);
+        for (const location of locations.slice(1)) {
+            output.push(`${prefix}(inlined by) ${location}`);
+        }
+    });
+
+    return { text: output.join('\n'), symbolized: additions.size };
+}
@@ -0,0 +1,337 @@
+/**
+ * Noise Report
+ * Clusters log messages into templates and reports which tags and
+ * message shapes produce the most lines
+ */
+
+import * as vscode from 'vscode';
+import { LogEntry, getEntryTime, parseLogcat } from './logcatParser';
+import { getMessageTemplate } from './logTemplates';
+
+export interface TemplateStats {
+    tag: string;
+    template: string;
+    count: number;
+    /** Line numbers of the first matches, or their line ids in a Logcat view session */
+    exampleLines: number[];
+    /** Raw text of the same lines */
+    examples: string[];
+}
+
+export interface TagStats {
+    tag: string;
+    count: number;
+    templates: number;
+}
+
+export interface NoiseReport {
+    totalLines: number;
+    /** Seconds between the first and last timestamped line */
+    durationSeconds: number;
+    templates: TemplateStats[];
+    tags: TagStats[];
+    /** Rare templates left out of a long session */
+    droppedTemplates: number;
+}
+
+// Examples kept per template
+const MAX_EXAMPLES = 20;
+
+// Templates kept; past this, the rarer half is dropped, as a long live
+// session keeps producing new ones
+const MAX_TEMPLATES = 5000;
+
+// Rows shown in the report
+const MAX_TEMPLATE_ROWS = 200;
+const MAX_TAG_ROWS = 50;
+
+let reportPanel: vscode.WebviewPanel | null = null;
+let reportListener: vscode.Disposable | null = null;
+
+/**
+ * Incremental template statistics for a stream of entries
+ */
+export class NoiseAnalyzer {
+    private templates = new Map<string, TemplateStats>();
+    private droppedTemplates = 0;
+    private totalLines = 0;
+    private firstTime: number | undefined;
+    private lastTime: number | undefined;
+
+    /**
+     * Count an entry; `line` is where examples point, the entry's line
+     * number by default
+     */
+    push(entry: LogEntry, line: number = entry.lineNumber): void {
+        this.totalLines++;
+
+        const time = getEntryTime(entry);
+        if (time !== undefined) {
+            this.firstTime = this.firstTime === undefined ? time : Math.min(this.firstTime, time);
+            this.lastTime = this.lastTime === undefined ? time : Math.max(this.lastTime, time);
+        }
+
+        const tag = entry.tag ?? '';
+        const template = getMessageTemplate(entry.message ?? entry.raw);
+        const key = `${tag}\u0000${template}`;
+
+        let stats = this.templates.get(key);
+        if (!stats) {
+            stats = { tag, template, count: 0, exampleLines: [], examples: [] };
+            this.templates.set(key, stats);
+        }
+        stats.count++;
+        if (stats.examples.length < MAX_EXAMPLES) {
+            stats.exampleLines.push(line);
+            stats.examples.push(entry.raw);
+        }
+
+        if (this.templates.size > MAX_TEMPLATES) {
+            this.dropRareTemplates();
+        }
+    }
+
+    reset(): void {
+        this.templates.clear();
+        this.droppedTemplates = 0;
+        this.totalLines = 0;
+        this.firstTime = undefined;
+        this.lastTime = undefined;
+    }
+
+    getReport(): NoiseReport {
+        const tags = new Map<string, TagStats>();
+        for (const stats of this.templates.values()) {
+            const tagStats = tags.get(stats.tag) ?? { tag: stats.tag, count: 0, templates: 0 };
+            tagStats.count += stats.count;
+            tagStats.templates++;
+            tags.set(stats.tag, tagStats);
+        }
+
+        const duration = this.firstTime !== undefined && this.lastTime !== undefined
+            ? (this.lastTime - this.firstTime) / 1000
+            : 0;
+
+        return {
+            totalLines: this.totalLines,
+            durationSeconds: duration,
+            templates: [...this.templates.values()].sort((a, b) => b.count - a.count),
+            tags: [...tags.values()].sort((a, b) => b.count - a.count),
+            droppedTemplates: this.droppedTemplates
+        };
+    }
+
+    /**
+     * Keep the more frequent half of the templates
+     */
+    private dropRareTemplates(): void {
+        const kept = [...this.templates].sort((a, b) => b[1].count - a[1].count).slice(0, MAX_TEMPLATES / 2);
+        this.droppedTemplates += this.templates.size - kept.length;
+        this.templates = new Map(kept);
+    }
+}
+
+/**
+ * Build a report for a list of entries
+ */
+export function analyzeEntries(entries: LogEntry[]): NoiseReport {
+    const analyzer = new NoiseAnalyzer();
+    entries.forEach(entry => analyzer.push(entry));
+    return analyzer.getReport();
+}
+
+/**
+ * Build a report for logcat text
+ */
+export function analyzeText(text: string): NoiseReport {
+    return analyzeEntries(parseLogcat(text));
+}
+
+/**
+ * Show a report. Clicking a template selects its examples in the document,
+ * or opens them in a new one once it is closed. For a Logcat view session,
+ * `source` scrolls the view to the examples, false if it shows none.
+ */
+export function showNoiseReport(
+    report: NoiseReport,
+    title: string,
+    source: vscode.TextDocument | ((lineIds: number[]) => boolean)
+): void {
+    if (!reportPanel) {
+        reportPanel = vscode.window.createWebviewPanel(
+            'logcatNoiseReport',
+            'Logcat Noise',
+            vscode.ViewColumn.Beside,
+            { enableScripts: true }
+        );
+        reportPanel.onDidDispose(() => {
+            reportListener?.dispose();
+            reportListener = null;
+            reportPanel = null;
+        });
+    }
+
+    const templates = report.templates.slice(0, MAX_TEMPLATE_ROWS);
+    reportPanel.title = `Logcat Noise: ${title}`;
+    reportPanel.webview.html = getReportHtml(report, templates, title);
+    // Clicks refer to the templates of the report shown last
+    reportListener?.dispose();
+    reportListener = reportPanel.webview.onDidReceiveMessage(async message => {
+        const stats = templates[message.index];
+        if (message.command !== 'showExamples' || !stats) {
+            return;
+        }
+
+        if (typeof source === 'function') {
+            if (!source(stats.exampleLines)) {
+                vscode.window.showInformationMessage('The Logcat view no longer shows these lines; they were cleared or are hidden by filters');
+            }
+            return;
+        }
+
+        const document = source;
+        if (!document.isClosed) {
+            const editor = await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+            editor.selections = stats.exampleLines.map(line => {
+                const range = document.lineAt(Math.min(line - 1, document.lineCount - 1)).range;
+                return new vscode.Selection(range.start, range.end);
+            });
+            editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenter);
+            return;
+        }
+
+        const examples = await vscode.workspace.openTextDocument({
+            language: 'logcat',
+            content: stats.examples.join('\n')
+        });
+        await vscode.window.showTextDocument(examples, vscode.ViewColumn.One);
+    });
+    reportPanel.reveal(vscode.ViewColumn.Beside, true);
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format a count per second, or "-" without timestamps
+ */
+function formatRate(count: number, seconds: number): string {
+    return seconds > 0 ? (count / seconds).toFixed(2) : '-';
+}
+
+function formatShare(count: number, total: number): string {
+    return total > 0 ? `${(count * 100 / total).toFixed(1)}%` : '-';
+}
+
+function getReportHtml(report: NoiseReport, templates: TemplateStats[], title: string): string {
+    const seconds = report.durationSeconds;
+
+    const templateRows = templates.map((stats, index) => `
+        <tr onclick="showExamples(${index})" title="Show examples">
+            <td class="num">${stats.count}</td>
+            <td class="num">${formatShare(stats.count, report.totalLines)}</td>
+            <td class="num">${formatRate(stats.count, seconds)}</td>
+            <td>${escapeHtml(stats.tag)}</td>
+            <td class="template">${escapeHtml(stats.template)}</td>
+        </tr>`).join('');
+
+    const tagRows = report.tags.slice(0, MAX_TAG_ROWS).map(stats => `
+        <tr>
+            <td class="num">${stats.count}</td>
+            <td class="num">${formatShare(stats.count, report.totalLines)}</td>
+            <td class="num">${formatRate(stats.count, seconds)}</td>
+            <td class="num">${stats.templates}</td>
+            <td>${escapeHtml(stats.tag)}</td>
+        </tr>`).join('');
+
+    return /*html*/`
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Logcat Noise</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 8px 16px;
+        }
+
+        h2 {
+            font-size: 13px;
+            margin: 16px 0 6px;
+        }
+
+        .summary {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        table {
+            border-collapse: collapse;
+            width: 100%;
+        }
+
+        th, td {
+            text-align: left;
+            padding: 2px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            vertical-align: top;
+        }
+
+        th {
+            font-weight: normal;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        td.num {
+            text-align: right;
+            white-space: nowrap;
+        }
+
+        td.template {
+            font-family: var(--vscode-editor-font-family);
+            word-break: break-all;
+        }
+
+        #templates tr:hover td {
+            background: var(--vscode-list-hoverBackground);
+            cursor: pointer;
+        }
+    </style>
+</head>
+<body>
+    <div class="summary">
+        ${escapeHtml(title)}: ${report.totalLines} lines${seconds > 0 ? ` over ${seconds.toFixed(1)} s, ${formatRate(report.totalLines, seconds)} lines/s` : ''},
+        ${report.templates.length} templates, ${report.tags.length} tags${report.droppedTemplates > 0 ? ` (${report.droppedTemplates} rare templates left out)` : ''}
+    </div>
+
+    <h2>Top message templates</h2>
+    <table id="templates">
+        <tr><th>Lines</th><th>Share</th><th>Lines/s</th><th>Tag</th><th>Template</th></tr>
+        ${templateRows}
+    </table>
+
+    <h2>Top tags</h2>
+    <table>
+        <tr><th>Lines</th><th>Share</th><th>Lines/s</th><th>Templates</th><th>Tag</th></tr>
+        ${tagRows}
+    </table>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function showExamples(index) {
+            vscode.postMessage({ command: 'showExamples', index: index });
+        }
+    </script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,133 @@
+/**
+ * Package Tracker
+ * Follows the processes of an app across crashes and relaunches
+ */
+
+import { LogEntry } from './logcatParser';
+import { getPackagePids, getProcessNames } from './deviceManager';
+
+// "Start proc 12345:com.example.app/u0a123 for activity {com.example.app/.MainActivity}"
+const START_PROC_PATTERN = /^Start proc (\d+):([^\s/]+)\//;
+
+// "Process com.example.app (pid 12345) has died: fg  TOP"
+const PROCESS_DIED_PATTERN = /^Process (\S+) \(pid (\d+)\) has died/;
+
+/**
+ * Check whether a process belongs to a package, e.g. "com.example.app:remote"
+ */
+function isPackageProcess(processName: string, packageName: string): boolean {
+    return processName === packageName || processName.startsWith(packageName + ':');
+}
+
+/**
+ * Keeps the PIDs of one package up to date from the device and from
+ * ActivityManager start and death lines
+ */
+export class PackageTracker {
+    /** Every PID the package had this session, so lines of dead processes stay visible */
+    readonly pids = new Set<number>();
+    /** PIDs that are still running */
+    readonly runningPids = new Set<number>();
+    /** Whether a refresh completed, so the PIDs came from the device */
+    refreshed = false;
+
+    constructor(public readonly packageName: string, private readonly deviceId?: string) {}
+
+    /**
+     * Ask the device for the package's current processes; an aborted
+     * refresh leaves the PIDs as they were
+     */
+    async refresh(signal?: AbortSignal): Promise<void> {
+        const pids = await getPackagePids(this.packageName, this.deviceId, signal);
+        if (signal?.aborted) {
+            return;
+        }
+        this.runningPids.clear();
+        for (const pid of pids) {
+            this.pids.add(pid);
+            this.runningPids.add(pid);
+        }
+        this.refreshed = true;
+    }
+
+    /**
+     * Feed an entry; returns true if the package's PIDs changed
+     */
+    observe(entry: LogEntry): boolean {
+        if (entry.tag !== 'ActivityManager' || !entry.message) {
+            return false;
+        }
+
+        const start = entry.message.match(START_PROC_PATTERN);
+        if (start) {
+            const pid = parseInt(start[1], 10);
+            if (isPackageProcess(start[2], this.packageName)) {
+                const isNew = !this.runningPids.has(pid);
+                this.pids.add(pid);
+                this.runningPids.add(pid);
+                return isNew;
+            }
+            // The PID now belongs to another process
+            this.runningPids.delete(pid);
+            return this.pids.delete(pid);
+        }
+
+        const died = entry.message.match(PROCESS_DIED_PATTERN);
+        if (died && isPackageProcess(died[1], this.packageName)) {
+            return this.runningPids.delete(parseInt(died[2], 10));
+        }
+
+        return false;
+    }
+}
+
+/**
+ * Names of the processes seen this session, from the device and from
+ * ActivityManager start lines. Names stay after a process dies, so its
+ * earlier lines keep them.
+ */
+export class ProcessNameTracker {
+    private readonly names = new Map<number, string>();
+
+    constructor(private readonly deviceId?: string) {}
+
+    async refresh(): Promise<void> {
+        for (const [pid, name] of await getProcessNames(this.deviceId)) {
+            this.names.set(pid, name);
+        }
+    }
+
+    observe(entry: LogEntry): void {
+        if (entry.tag !== 'ActivityManager' || !entry.message) {
+            return;
+        }
+        const start = entry.message.match(START_PROC_PATTERN);
+        if (start) {
+            this.names.set(parseInt(start[1], 10), start[2]);
+        }
+    }
+
+    get(pid: number | undefined): string | undefined {
+        return pid !== undefined ? this.names.get(pid) : undefined;
+    }
+
+    /**
+     * Check whether a process of the package was seen
+     */
+    hasPackage(packageName: string): boolean {
+        return [...this.names.values()].some(name => isPackageProcess(name, packageName));
+    }
+
+    clear(): void {
+        this.names.clear();
+    }
+}
+
+/**
+ * Find the PIDs a package was started with in a list of entries
+ */
+export function findStartedPids(entries: LogEntry[], packageName: string): number[] {
+    const tracker = new PackageTracker(packageName);
+    entries.forEach(entry => tracker.observe(entry));
+    return [...tracker.pids];
+}
@@ -0,0 +1,253 @@
+/**
+ * Retrace
+ * De-obfuscates R8/ProGuard stack traces using a mapping.txt file
+ */
+
+import * as fs from 'fs';
+import { LogEntry, parseLogLine } from './logcatParser';
+
+interface MemberMapping {
+    obfStart?: number;
+    obfEnd?: number;
+    originalName: string;
+    originalClass?: string;
+    originalStart?: number;
+    originalEnd?: number;
+}
+
+interface ClassMapping {
+    originalName: string;
+    sourceFile?: string;
+    methods: Map<string, MemberMapping[]>;
+}
+
+export interface RetraceMapping {
+    path?: string;
+    /** Class mappings keyed by obfuscated name */
+    classes: Map<string, ClassMapping>;
+    /** The same class mappings keyed by original name */
+    originalClasses: Map<string, ClassMapping>;
+}
+
+// "com.example.Foo -> a.b.c:"
+const CLASS_LINE_PATTERN = /^(\S+)\s+->\s+(\S+):$/;
+
+// "    12:15:void onCreate(android.os.Bundle):42:45 -> a"
+// Methods inlined from another class carry a qualified name: "com.example.Bar.run"
+const METHOD_LINE_PATTERN = /^\s+(?:(\d+):(\d+):)?\S+\s+([^\s(]+)\([^)]*\)(?::(\d+)(?::(\d+))?)?\s+->\s+(\S+)$/;
+
+// R8 metadata comment after a class line: # {"id":"sourceFile","fileName":"Foo.kt"}
+const SOURCE_FILE_PATTERN = /^\s*#\s*\{.*"id"\s*:\s*"sourceFile".*"fileName"\s*:\s*"([^"]+)"/;
+
+// "at a.b.c.a(Unknown Source:12)", "at a.b.c.a(SourceFile)", "at a.b.c.a(Native Method)"
+const FRAME_PATTERN = /^(.*?\bat\s+)([\w$.]+)\.([\w$<>]+)\(([^:)]*)(?::(\d+))?\)(.*)$/;
+
+// Exception class at the start of a message: "a.b.c: message" or "Caused by: a.b.c"
+const EXCEPTION_PATTERN = /^(\s*(?:Caused by:\s*|Suppressed:\s*)?)([a-zA-Z_$][\w$]*(?:\.[a-zA-Z_$][\w$]*)+)(:.*|$)/;
+
+/**
+ * Parse the contents of a mapping.txt file
+ */
+export function parseMapping(text: string, mappingPath?: string): RetraceMapping {
+    const classes = new Map<string, ClassMapping>();
+    const originalClasses = new Map<string, ClassMapping>();
+    let current: ClassMapping | undefined;
+
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim()) {
+            continue;
+        }
+
+        const classMatch = line.match(CLASS_LINE_PATTERN);
+        if (classMatch) {
+            current = { originalName: classMatch[1], methods: new Map() };
+            classes.set(classMatch[2], current);
+            originalClasses.set(classMatch[1], current);
+            continue;
+        }
+
+        if (!current) {
+            continue;
+        }
+
+        const sourceMatch = line.match(SOURCE_FILE_PATTERN);
+        if (sourceMatch) {
+            current.sourceFile = sourceMatch[1];
+            continue;
+        }
+
+        const methodMatch = line.match(METHOD_LINE_PATTERN);
+        if (methodMatch) {
+            const qualifiedName = methodMatch[3];
+            const lastDot = qualifiedName.lastIndexOf('.');
+            const member: MemberMapping = {
+                obfStart: methodMatch[1] ? parseInt(methodMatch[1], 10) : undefined,
+                obfEnd: methodMatch[2] ? parseInt(methodMatch[2], 10) : undefined,
+                originalName: lastDot >= 0 ? qualifiedName.slice(lastDot + 1) : qualifiedName,
+                originalClass: lastDot >= 0 ? qualifiedName.slice(0, lastDot) : undefined,
+                originalStart: methodMatch[4] ? parseInt(methodMatch[4], 10) : undefined,
+                originalEnd: methodMatch[5] ? parseInt(methodMatch[5], 10) : undefined
+            };
+
+            const obfName = methodMatch[6];
+            const members = current.methods.get(obfName) ?? [];
+            members.push(member);
+            current.methods.set(obfName, members);
+        }
+    }
+
+    return { path: mappingPath, classes, originalClasses };
+}
+
+/**
+ * Load and parse a mapping.txt file
+ */
+export async function loadMapping(mappingPath: string): Promise<RetraceMapping> {
+    const text = await fs.promises.readFile(mappingPath, 'utf8');
+    return parseMapping(text, mappingPath);
+}
+
+/**
+ * Retrace one line of text. Frames that R8 inlined expand into several
+ * lines, each keeping the prefix (e.g. the logcat header) of the original.
+ */
+export function retraceLine(line: string, mapping: RetraceMapping): string[] {
+    // Work on the message so the logcat header is never mistaken for a class
+    const message = parseLogLine(line, 0).message;
+    const prefix = message !== undefined && line.endsWith(message)
+        ? line.slice(0, line.length - message.length)
+        : '';
+    const body = line.slice(prefix.length);
+
+    const frameMatch = body.match(FRAME_PATTERN);
+    if (frameMatch) {
+        return retraceFrame(frameMatch, mapping).map(frame => prefix + frame);
+    }
+
+    return [prefix + retraceExceptionClass(body, mapping)];
+}
+
+/**
+ * Retrace multi-line text line by line
+ */
+export function retraceText(text: string, mapping: RetraceMapping): string {
+    return text
+        .split('\n')
+        .flatMap(line => retraceLine(line, mapping))
+        .join('\n');
+}
+
+/**
+ * Retrace the message of an entry, returning a new entry
+ */
+export function retraceEntry(entry: LogEntry, mapping: RetraceMapping): LogEntry {
+    if (!entry.message) {
+        return entry;
+    }
+
+    const message = retraceText(entry.message, mapping);
+    if (message === entry.message) {
+        return entry;
+    }
+
+    // Each line keeps its header (timestamp, PID, tag), also on expanded inlined frames
+    return { ...entry, raw: retraceText(entry.raw, mapping), message };
+}
+
+/**
+ * Map an obfuscated class name to its original name
+ */
+export function retraceClassName(name: string, mapping: RetraceMapping): string {
+    return mapping.classes.get(name)?.originalName ?? name;
+}
+
+/**
+ * Retrace a matched stack frame
+ */
+function retraceFrame(match: RegExpMatchArray, mapping: RetraceMapping): string[] {
+    const [, prefix, className, methodName, source, lineText, suffix] = match;
+    const classMapping = mapping.classes.get(className);
+    if (!classMapping) {
+        return [match[0]];
+    }
+
+    const line = lineText !== undefined ? parseInt(lineText, 10) : undefined;
+    const candidates = classMapping.methods.get(methodName) ?? [];
+
+    // Pick the mappings whose obfuscated line range contains the frame's line.
+    // Consecutive matches are inlined frames, innermost first.
+    let members = candidates.filter(member =>
+        line !== undefined && member.obfStart !== undefined && member.obfEnd !== undefined
+        && line >= member.obfStart && line <= member.obfEnd
+    );
+    if (members.length === 0) {
+        members = candidates.filter(member => member.obfStart === undefined);
+    }
+    if (members.length === 0) {
+        // Method not mapped (or ambiguous without a line): rename the class only
+        const fileName = getSourceFile(classMapping, source);
+        return [`${prefix}${classMapping.originalName}.${methodName}(${formatLocation(fileName, line)})${suffix}`];
+    }
+
+    return members.map(member => {
+        const originalClass = member.originalClass ?? classMapping.originalName;
+        const inlinedFrom = member.originalClass ? mapping.originalClasses.get(member.originalClass) : undefined;
+        const fileName = member.originalClass
+            ? (inlinedFrom ? getSourceFile(inlinedFrom, undefined) : guessSourceFile(member.originalClass))
+            : getSourceFile(classMapping, source);
+        const originalLine = mapLineNumber(member, line);
+        return `${prefix}${originalClass}.${member.originalName}(${formatLocation(fileName, originalLine)})${suffix}`;
+    });
+}
+
+/**
+ * Replace an obfuscated exception class at the start of a message
+ */
+function retraceExceptionClass(line: string, mapping: RetraceMapping): string {
+    const match = line.match(EXCEPTION_PATTERN);
+    if (!match || !mapping.classes.has(match[2])) {
+        return line;
+    }
+    return match[1] + retraceClassName(match[2], mapping) + match[3];
+}
+
+/**
+ * Map an obfuscated line number into the original method's line range
+ */
+function mapLineNumber(member: MemberMapping, line: number | undefined): number | undefined {
+    if (member.originalStart === undefined) {
+        return line;
+    }
+    if (line === undefined || member.obfStart === undefined) {
+        return member.originalStart;
+    }
+    if (member.originalEnd !== undefined && member.originalEnd !== member.originalStart) {
+        return member.originalStart + (line - member.obfStart);
+    }
+    return member.originalStart;
+}
+
+/**
+ * Get the source file name for a class, keeping a real name from the frame
+ */
+function getSourceFile(classMapping: ClassMapping, frameSource: string | undefined): string {
+    if (frameSource && frameSource !== 'SourceFile' && frameSource !== 'Unknown Source') {
+        return frameSource;
+    }
+    return classMapping.sourceFile ?? guessSourceFile(classMapping.originalName);
+}
+
+/**
+ * Guess a source file name from a class name, as retrace does: "Foo$Bar" -> "Foo.java"
+ */
+function guessSourceFile(className: string): string {
+    const simpleName = className.slice(className.lastIndexOf('.') + 1);
+    return `${simpleName.split('$')[0]}.java`;
+}
+
+/**
+ * Format the location part of a frame: "Foo.kt:42" or "Foo.kt"
+ */
+function formatLocation(fileName: string, line: number | undefined): string {
+    return line !== undefined ? `${fileName}:${line}` : fileName;
+}
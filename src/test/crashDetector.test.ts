@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { detectCrashesInText } from '../crashDetector';
+
+describe('detectCrashesInText', () => {
+    it('ends an ANR report at the first ActivityManager line of another priority', () => {
+        const [incident, ...rest] = detectCrashesInText([
+            '01-02 03:04:05.000  1500  1520 E ActivityManager: ANR in com.example.app (com.example.app/.MainActivity)',
+            '01-02 03:04:05.000  1500  1520 E ActivityManager: PID: 4321',
+            '01-02 03:04:05.000  1500  1520 E ActivityManager: Reason: Input dispatching timed out',
+            '01-02 03:04:05.001  1500  1520 E ActivityManager:   12% TOTAL: 8% user + 4% kernel',
+            '01-02 03:04:06.000  1500  1530 I ActivityManager: Killing 4321:com.example.app/u0a123 (adj 0): bg anr',
+            '01-02 03:04:07.000  1500  1530 E ActivityManager: Failure starting process com.other'
+        ].join('\n'));
+        assert.strictEqual(rest.length, 0);
+        assert.strictEqual(incident.entries.length, 4);
+        assert.strictEqual(incident.pid, 4321);
+        assert.strictEqual(incident.packageName, 'com.example.app');
+    });
+
+    it('starts a new native incident in the same debuggerd process after the crashed PID was collected', () => {
+        const tombstone = (pid: number) => [
+            `01-02 03:04:05.000   900   900 F DEBUG   : *** *** *** *** *** *** *** *** *** *** *** *** *** *** *** ***`,
+            `01-02 03:04:05.000   900   900 F DEBUG   : pid: ${pid}, tid: ${pid}, name: main  >>> com.example.app <<<`,
+            `01-02 03:04:05.000   900   900 F DEBUG   : signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0`
+        ];
+        const incidents = detectCrashesInText([...tombstone(4321), ...tombstone(5555)].join('\n'));
+        assert.deepStrictEqual(incidents.map(incident => [incident.pid, incident.entries.length]), [[4321, 3], [5555, 3]]);
+    });
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { EventLogDecoder, parseEventLogTags } from '../eventLogDecoder';
+
+// Fixtures stay in src; the tests run from out
+const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+function readFixture(name: string): Buffer {
+    return fs.readFileSync(path.join(FIXTURES, name));
+}
+
+const tags = parseEventLogTags(readFixture('event-log-tags').toString('utf8'));
+
+describe('parseEventLogTags', () => {
+    it('reads tag names and field types, skipping comments', () => {
+        assert.strictEqual(tags.size, 4);
+        assert.deepStrictEqual(tags.get(3000), { tagNumber: 3000, name: 'boot_progress_start', fields: [{ name: 'time', type: 1 }] });
+        assert.deepStrictEqual(tags.get(30014)?.fields.map(field => field.name),
+            ['User', 'PID', 'UID', 'Process Name', 'Type', 'Component']);
+    });
+});
+
+describe('EventLogDecoder', () => {
+    it('decodes v1 records, which have no uid', () => {
+        const [entry, ...rest] = new EventLogDecoder(tags).push(readFixture('events-v1.bin'));
+        assert.strictEqual(rest.length, 0);
+        assert.strictEqual(entry.pid, 812);
+        assert.strictEqual(entry.tid, 840);
+        assert.strictEqual(entry.uid, undefined);
+        assert.strictEqual(entry.timestamp?.getTime(), 1700000000123);
+        assert.strictEqual(entry.nanos, 123456789);
+        assert.strictEqual(entry.tag, 'battery_level');
+        assert.strictEqual(entry.message, '[level=95,voltage=4200,temperature=310]');
+    });
+
+    it('decodes v2 longs and strings, naming unknown tags by number', () => {
+        const entries = new EventLogDecoder(tags).push(readFixture('events-v2.bin'));
+        assert.strictEqual(entries.length, 2);
+        assert.deepStrictEqual(entries[0].event?.values, [12345678901]);
+        assert.strictEqual(entries[0].message, 'time=12345678901');
+        assert.strictEqual(entries[1].tag, '99999');
+        assert.strictEqual(entries[1].message, 'hello');
+        assert.strictEqual(entries[1].lineNumber, 2);
+    });
+
+    it('decodes v4 records with their uid, lists, floats and longs beyond the safe range', () => {
+        const entries = new EventLogDecoder(tags).push(readFixture('events-v4.bin'));
+        assert.strictEqual(entries.length, 3);
+        assert.strictEqual(entries[0].uid, '1000');
+        assert.strictEqual(entries[0].tag, 'am_proc_start');
+        assert.strictEqual(entries[0].message,
+            '[User=0,PID=4321,UID=10123,Process Name=com.example.app,Type=activity,Component=com.example.app/.MainActivity]');
+        assert.deepStrictEqual(entries[1].event?.values, [0.5]);
+        assert.deepStrictEqual(entries[2].event?.values, ['9223372036854775807']);
+    });
+
+    it('keeps records split across chunks until they are complete', () => {
+        const data = readFixture('events-v4.bin');
+        const decoder = new EventLogDecoder(tags);
+        const entries = [];
+        for (let offset = 0; offset < data.length; offset += 7) {
+            entries.push(...decoder.push(data.subarray(offset, offset + 7)));
+        }
+        assert.deepStrictEqual(entries, new EventLogDecoder(tags).push(data));
+    });
+
+    it('stops at a string with a negative length', () => {
+        const [entry] = new EventLogDecoder(tags).push(readFixture('events-negative-string.bin'));
+        assert.deepStrictEqual(entry.event?.values, [7]);
+        assert.strictEqual(entry.uid, '10050');
+    });
+
+    it('drops a trailing partial record at the end', () => {
+        const data = readFixture('events-v2.bin');
+        const decoder = new EventLogDecoder(tags);
+        assert.strictEqual(decoder.push(data.subarray(0, data.length - 3)).length, 1);
+        assert.deepStrictEqual(decoder.end(), []);
+    });
+});
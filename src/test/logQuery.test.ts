@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { QueryError, matchesQuery, onlyAgesOut, parseQuery } from '../logQuery';
+
+const entry = {
+    raw: '01-02 03:04:05.000  1234  1250 E AndroidRuntime: java.lang.NullPointerException: see http://example.com/x',
+    pid: 1234,
+    priority: 'E',
+    tag: 'AndroidRuntime',
+    message: 'java.lang.NullPointerException: see http://example.com/x'
+};
+
+function matches(query: string): boolean {
+    return matchesQuery(parseQuery(query)!, entry, { packages: {} });
+}
+
+describe('parseQuery', () => {
+    it('searches the line for words that only look like a field', () => {
+        assert.strictEqual(matches('NullPointerException:'), true);
+        assert.strictEqual(matches('http://example.com/x'), true);
+        assert.strictEqual(matches('IllegalStateException:'), false);
+    });
+
+    it('still reads known fields and their aliases', () => {
+        assert.strictEqual(matches('tag:AndroidRuntime level>=W'), true);
+        assert.strictEqual(matches('pkg:com.example.app'), false);
+        assert.strictEqual(matches('msg~/^java\\.lang\\./'), true);
+    });
+
+    it('reports invalid values of known fields', () => {
+        assert.throws(() => parseQuery('pid:abc'), QueryError);
+        assert.throws(() => parseQuery('tag:'), QueryError);
+    });
+});
+
+describe('onlyAgesOut', () => {
+    it('holds for queries that keep lines up to an age', () => {
+        assert.strictEqual(onlyAgesOut(parseQuery('age:5m tag:OkHttp')!), true);
+        assert.strictEqual(onlyAgesOut(parseQuery('level>=W OR age<30s')!), true);
+        assert.strictEqual(onlyAgesOut(parseQuery('-age>1h')!), true);
+    });
+
+    it('fails for queries that show lines once they are old enough', () => {
+        assert.strictEqual(onlyAgesOut(parseQuery('age>5m')!), false);
+        assert.strictEqual(onlyAgesOut(parseQuery('tag:OkHttp -age:5m')!), false);
+    });
+});
@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { IdleFlush, LogEntry, LogPriority, LogcatStreamParser, parseLogLine, parseLogcat } from '../logcatParser';
+
+const THREADTIME = '01-15 10:30:45.123  1234  5678 I ActivityManager: Start proc com.example';
+
+function parseAll(parser: LogcatStreamParser, chunks: (Buffer | string)[]): LogEntry[] {
+    return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.end()];
+}
+
+describe('LogcatStreamParser', () => {
+    it('joins a line split across chunks', () => {
+        const parser = new LogcatStreamParser();
+        assert.deepStrictEqual(parser.push(THREADTIME.slice(0, 20)), []);
+        assert.deepStrictEqual(parser.push(THREADTIME.slice(20, 40)), []);
+        const [entry, ...rest] = parser.push(THREADTIME.slice(40) + '\n');
+        assert.strictEqual(rest.length, 0);
+        assert.strictEqual(entry.raw, THREADTIME);
+        assert.strictEqual(entry.tag, 'ActivityManager');
+        assert.strictEqual(entry.message, 'Start proc com.example');
+    });
+
+    it('decodes a multi-byte character split across chunks', () => {
+        const bytes = Buffer.from('01-15 10:30:45.123  1234  5678 I Tag: café \u{1F600}\n', 'utf8');
+        const cut = bytes.indexOf(0xc3) + 1;
+        const emoji = bytes.indexOf(0xf0) + 2;
+        const entries = parseAll(new LogcatStreamParser(), [bytes.subarray(0, cut), bytes.subarray(cut, emoji), bytes.subarray(emoji)]);
+        assert.strictEqual(entries.length, 1);
+        assert.strictEqual(entries[0].message, 'café \u{1F600}');
+    });
+
+    it('strips CRLF line endings', () => {
+        const entries = parseAll(new LogcatStreamParser(), [THREADTIME + '\r\n' + THREADTIME + '\r', '\n']);
+        assert.deepStrictEqual(entries.map(entry => entry.raw), [THREADTIME, THREADTIME]);
+        assert.strictEqual(entries[1].message, 'Start proc com.example');
+    });
+
+    it('emits a trailing line without a newline on end', () => {
+        const parser = new LogcatStreamParser();
+        assert.deepStrictEqual(parser.push(THREADTIME), []);
+        assert.deepStrictEqual(parser.end().map(entry => entry.raw), [THREADTIME]);
+    });
+
+    it('folds -v long entries into one entry each', () => {
+        const text = [
+            '[ 01-15 10:30:45.123  1234: 5678 E/AndroidRuntime ]',
+            'FATAL EXCEPTION: main',
+            '\tat com.example.Main.run(Main.java:42)',
+            '',
+            '[ 01-15 10:30:45.200  1234: 5678 I/Process ]',
+            'Sending signal.',
+            '',
+            ''
+        ].join('\n');
+        const entries = parseAll(new LogcatStreamParser(), [text]);
+        assert.strictEqual(entries.length, 2);
+        assert.strictEqual(entries[0].tag, 'AndroidRuntime');
+        assert.strictEqual(entries[0].priority, LogPriority.ERROR);
+        assert.strictEqual(entries[0].message, 'FATAL EXCEPTION: main\n\tat com.example.Main.run(Main.java:42)');
+        assert.strictEqual(entries[0].lineNumber, 1);
+        assert.strictEqual(entries[0].endLineNumber, 3);
+        assert.strictEqual(entries[1].message, 'Sending signal.');
+        assert.strictEqual(entries[1].lineNumber, 5);
+        assert.strictEqual(entries[1].endLineNumber, 6);
+    });
+
+    it('holds a long entry until the next header or a flush', () => {
+        const parser = new LogcatStreamParser();
+        assert.deepStrictEqual(parser.push('[ 01-15 10:30:45.123  1234: 5678 W/Tag ]\nfirst\n'), []);
+        assert.deepStrictEqual(parser.push('second\n'), []);
+        const [entry, ...rest] = parser.flush();
+        assert.strictEqual(rest.length, 0);
+        assert.strictEqual(entry.message, 'first\nsecond');
+        assert.deepStrictEqual(parser.flush(), []);
+    });
+
+    it('flushes a held long entry once the output is idle', async () => {
+        const parser = new LogcatStreamParser();
+        const flushed: LogEntry[] = [];
+        const idleFlush = new IdleFlush(parser, entries => flushed.push(...entries));
+        assert.deepStrictEqual(parser.push('[ 01-15 10:30:45.123  1234: 5678 E/Tag ]\ncrash\n'), []);
+        idleFlush.restart();
+        await new Promise(resolve => setTimeout(resolve, 700));
+        assert.strictEqual(flushed.length, 1);
+        assert.strictEqual(flushed[0].message, 'crash');
+    });
+
+    it('does not flush while output keeps arriving', async () => {
+        const parser = new LogcatStreamParser();
+        const flushed: LogEntry[] = [];
+        const idleFlush = new IdleFlush(parser, entries => flushed.push(...entries));
+        parser.push('[ 01-15 10:30:45.123  1234: 5678 E/Tag ]\ncrash\n');
+        idleFlush.restart();
+        idleFlush.cancel();
+        await new Promise(resolve => setTimeout(resolve, 700));
+        assert.deepStrictEqual(flushed, []);
+    });
+
+    it('tags entries with the buffer of the last divider', () => {
+        const text = '--------- beginning of main\n' + THREADTIME + '\n--------- switch to system\n' + THREADTIME + '\n';
+        const entries = parseAll(new LogcatStreamParser(), [text]);
+        assert.deepStrictEqual(entries.map(entry => entry.buffer), ['main', 'main', 'system', 'system']);
+        const dropped = parseAll(new LogcatStreamParser(true), [text]);
+        assert.deepStrictEqual(dropped.map(entry => [entry.buffer, entry.lineNumber]), [['main', 2], ['system', 4]]);
+    });
+});
+
+describe('parseLogLine', () => {
+    it('reads the year and microseconds', () => {
+        const entry = parseLogLine('2024-01-15 10:30:45.123456  1234  5678 D Tag: message', 1);
+        assert.strictEqual(entry.timestamp?.getFullYear(), 2024);
+        assert.strictEqual(entry.timestamp?.getMilliseconds(), 123);
+        assert.strictEqual(entry.nanos, 123456000);
+        assert.strictEqual(entry.pid, 1234);
+        assert.strictEqual(entry.message, 'message');
+    });
+
+    it('reads the zone as an offset from UTC', () => {
+        const entry = parseLogLine('2024-01-15 10:30:45.123 +0100  1234  5678 D Tag: message', 1);
+        assert.strictEqual(entry.timeZone, '+0100');
+        assert.strictEqual(entry.timestamp?.toISOString(), '2024-01-15T09:30:45.123Z');
+    });
+
+    it('reads the uid before the pid', () => {
+        const entry = parseLogLine('01-15 10:30:45.123 u0_a123  1234  5678 I Tag: message', 1);
+        assert.strictEqual(entry.uid, 'u0_a123');
+        assert.strictEqual(entry.pid, 1234);
+        assert.strictEqual(entry.tid, 5678);
+    });
+
+    it('reads epoch seconds as a timestamp', () => {
+        const entry = parseLogLine('1705314645.123  1234  5678 I Tag: message', 1);
+        assert.strictEqual(entry.timestamp?.getTime(), 1705314645123);
+        assert.strictEqual(entry.uptime, undefined);
+    });
+
+    it('reads monotonic seconds as the time since boot', () => {
+        const entry = parseLogLine('   12.345  1234  5678 I Tag: message', 1);
+        assert.strictEqual(entry.uptime, 12.345);
+        assert.strictEqual(entry.timestamp, undefined);
+    });
+
+    it('reads brief lines with a uid', () => {
+        const entry = parseLogLine('W/Tag(u0_a123:  1234): message', 1);
+        assert.strictEqual(entry.priority, LogPriority.WARNING);
+        assert.strictEqual(entry.tag, 'Tag');
+        assert.strictEqual(entry.uid, 'u0_a123');
+        assert.strictEqual(entry.pid, 1234);
+        assert.strictEqual(entry.message, 'message');
+    });
+
+    it('keeps unparsable lines as raw text', () => {
+        assert.deepStrictEqual(parseLogLine('not a log line', 3), { raw: 'not a log line', lineNumber: 3 });
+    });
+});
+
+describe('parseLogcat', () => {
+    it('drops blank lines, keeping the line numbers of the document', () => {
+        const entries = parseLogcat(THREADTIME + '\n\n  \n' + THREADTIME + '\n');
+        assert.deepStrictEqual(entries.map(entry => entry.lineNumber), [1, 4]);
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DEFAULT_FILTERS, DEFAULT_LOG_BUFFERS, DEFAULT_TABLE_LAYOUT, PROTOCOL_VERSION, parseWebviewMessage } from '../logcatProtocol';
+
+function parse(message: Record<string, unknown>) {
+    return parseWebviewMessage({ version: PROTOCOL_VERSION, ...message });
+}
+
+describe('parseWebviewMessage', () => {
+    it('rejects values that are not messages', () => {
+        for (const data of [undefined, null, 42, 'ready', []]) {
+            assert.strictEqual(parseWebviewMessage(data), undefined);
+        }
+    });
+
+    it('rejects messages of another protocol version or without one', () => {
+        assert.strictEqual(parseWebviewMessage({ command: 'ready' }), undefined);
+        assert.strictEqual(parseWebviewMessage({ version: PROTOCOL_VERSION - 1, command: 'ready' }), undefined);
+        assert.strictEqual(parseWebviewMessage({ version: String(PROTOCOL_VERSION), command: 'ready' }), undefined);
+    });
+
+    it('rejects unknown and missing commands', () => {
+        assert.strictEqual(parse({ command: 'deleteEverything' }), undefined);
+        assert.strictEqual(parse({ command: 42 }), undefined);
+        assert.strictEqual(parse({}), undefined);
+        assert.strictEqual(parse({ command: 'toString' }), undefined);
+    });
+
+    it('passes commands without fields and drops extra fields', () => {
+        assert.deepStrictEqual(parse({ command: 'ready', extra: true }), { command: 'ready' });
+        assert.deepStrictEqual(parse({ command: 'stop' }), { command: 'stop' });
+    });
+
+    it('keeps known buffers and falls back to the defaults', () => {
+        assert.deepStrictEqual(parse({ command: 'start', buffers: ['main', 'bogus', 'crash'] }), { command: 'start', buffers: ['main', 'crash'] });
+        assert.deepStrictEqual(parse({ command: 'start', buffers: ['main', 'all'] }), { command: 'start', buffers: ['all'] });
+        assert.deepStrictEqual(parse({ command: 'start', buffers: 'main' }), { command: 'start', buffers: DEFAULT_LOG_BUFFERS });
+    });
+
+    it('turns malformed row ranges and ids into 0', () => {
+        assert.deepStrictEqual(parse({ command: 'getRows', start: -5, end: 1.5, top: '3' }), { command: 'getRows', start: 0, end: 0, top: 0 });
+        assert.deepStrictEqual(parse({ command: 'getRows', start: 10, end: 60, top: 12 }), { command: 'getRows', start: 10, end: 60, top: 12 });
+        assert.deepStrictEqual(parse({ command: 'toggleCrash', id: null }), { command: 'toggleCrash', id: 0 });
+    });
+
+    it('accepts only known sort columns', () => {
+        assert.deepStrictEqual(parse({ command: 'sort', sort: { column: 'tag', ascending: false } }),
+            { command: 'sort', sort: { column: 'tag', ascending: false } });
+        assert.deepStrictEqual(parse({ command: 'sort', sort: { column: 'raw' } }), { command: 'sort' });
+        assert.deepStrictEqual(parse({ command: 'sort', sort: 'tag' }), { command: 'sort' });
+    });
+
+    it('takes only the line id of a source link, not a path', () => {
+        assert.deepStrictEqual(parse({ command: 'openSource', id: 12, source: { path: '/etc/passwd', line: 1 } }),
+            { command: 'openSource', id: 12 });
+        assert.deepStrictEqual(parse({ command: 'openSource', id: '12' }), { command: 'openSource', id: 0 });
+    });
+
+    it('rejects a device selection without a device id', () => {
+        assert.strictEqual(parse({ command: 'selectDevice', device: 5 }), undefined);
+        assert.deepStrictEqual(parse({ command: 'selectDevice', device: 'emulator-5554' }), { command: 'selectDevice', device: 'emulator-5554' });
+    });
+
+    it('fills in filters that are missing or not text', () => {
+        assert.deepStrictEqual(parse({ command: 'filtersChanged', filters: { level: 'W', tag: 7 } }),
+            { command: 'filtersChanged', filters: { ...DEFAULT_FILTERS, level: 'W' }, buffer: '', committed: false });
+        assert.deepStrictEqual(parse({ command: 'filtersChanged', filters: null, buffer: 'main', committed: true }),
+            { command: 'filtersChanged', filters: DEFAULT_FILTERS, buffer: 'main', committed: true });
+    });
+
+    it('repairs table layouts and time modes', () => {
+        const message = parse({ command: 'layoutChanged', layout: { enabled: 'yes', columns: [{ id: 'tag', width: 2 }, { id: 'bogus' }] } });
+        assert.ok(message?.command === 'layoutChanged');
+        assert.strictEqual(message.layout.enabled, false);
+        assert.strictEqual(message.layout.columns[0].id, 'tag');
+        assert.strictEqual(message.layout.columns[0].width, DEFAULT_TABLE_LAYOUT.columns.find(column => column.id === 'tag')!.width);
+        assert.strictEqual(message.layout.columns.length, DEFAULT_TABLE_LAYOUT.columns.length);
+        assert.deepStrictEqual(parse({ command: 'timeMode', mode: 'sideways' }), { command: 'timeMode', mode: 'absolute' });
+    });
+
+    it('reads find options', () => {
+        assert.deepStrictEqual(parse({ command: 'find', text: 'foo', context: -1 }), { command: 'find', text: 'foo', context: undefined });
+        assert.deepStrictEqual(parse({ command: 'find', context: 3 }), { command: 'find', text: '', context: 3 });
+        assert.deepStrictEqual(parse({ command: 'findNext', forward: false }), { command: 'findNext', forward: false });
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Zip Reader
+ * Minimal reader for zip archives (stored and deflated entries)
+ */
+
+import * as zlib from 'zlib';
+
+export interface ZipEntry {
+    name: string;
+    method: number;
+    compressedSize: number;
+    uncompressedSize: number;
+    localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const CENTRAL_DIR_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_MARKER = 0xffffffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * List the entries of a zip archive from its central directory
+ */
+export function readZipEntries(zip: Buffer): ZipEntry[] {
+    const endOffset = findEndOfCentralDirectory(zip);
+    const entryCount = zip.readUInt16LE(endOffset + 10);
+    const centralDirOffset = zip.readUInt32LE(endOffset + 16);
+
+    if (centralDirOffset === ZIP64_MARKER) {
+        throw new Error('Zip64 archives are not supported');
+    }
+
+    const entries: ZipEntry[] = [];
+    let offset = centralDirOffset;
+
+    for (let i = 0; i < entryCount; i++) {
+        if (zip.readUInt32LE(offset) !== CENTRAL_DIR_SIGNATURE) {
+            throw new Error('Corrupt zip central directory');
+        }
+
+        const nameLength = zip.readUInt16LE(offset + 28);
+        const extraLength = zip.readUInt16LE(offset + 30);
+        const commentLength = zip.readUInt16LE(offset + 32);
+
+        entries.push({
+            name: zip.toString('utf8', offset + 46, offset + 46 + nameLength),
+            method: zip.readUInt16LE(offset + 10),
+            compressedSize: zip.readUInt32LE(offset + 20),
+            uncompressedSize: zip.readUInt32LE(offset + 24),
+            localHeaderOffset: zip.readUInt32LE(offset + 42)
+        });
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+/**
+ * Read and decompress the data of one entry
+ */
+export function readZipEntry(zip: Buffer, entry: ZipEntry): Buffer {
+    const offset = entry.localHeaderOffset;
+    if (zip.readUInt32LE(offset) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt zip entry: ${entry.name}`);
+    }
+
+    // The local header repeats name and extra field with its own lengths
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const extraLength = zip.readUInt16LE(offset + 28);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    const data = zip.subarray(dataStart, dataStart + entry.compressedSize);
+
+    switch (entry.method) {
+        case METHOD_STORED:
+            return data;
+        case METHOD_DEFLATED:
+            return zlib.inflateRawSync(data);
+        default:
+            throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+    }
+}
+
+/**
+ * Find the end of central directory record, which is followed by an
+ * optional comment of up to 64 KB
+ */
+function findEndOfCentralDirectory(zip: Buffer): number {
+    const minOffset = Math.max(0, zip.length - 22 - 0xffff);
+    for (let offset = zip.length - 22; offset >= minOffset; offset--) {
+        if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIR_SIGNATURE) {
+            return offset;
+        }
+    }
+    throw new Error('Not a zip file');
+}